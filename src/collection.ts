@@ -0,0 +1,80 @@
+export interface CollectionListener<T> {
+    /** Called for every item, including the ones added before subscribing */
+    added?: (item: T, contributor: string) => void,
+    removed?: (item: T, contributor: string) => void,
+}
+
+export interface Collection<T> extends Iterable<T> {
+    isFrogeCollection: true,
+    /** Number of items from started contributors */
+    size: number,
+    /** Items from started contributors, in start order */
+    items: () => T[],
+    /** Subscribe to items added by starting and removed by stopping contributors, returns unsubscribe function */
+    subscribe: (listener: CollectionListener<T>) => () => void,
+}
+
+const contributionsKey = Symbol('contributions');
+const listenersKey = Symbol('listeners');
+
+interface CollectionState<T> {
+    [contributionsKey]: Map<string, T>,
+    [listenersKey]: Set<CollectionListener<T>>,
+}
+
+export function collection<T>(): Collection<T> {
+    const contributions = new Map<string, T>();
+    const listeners = new Set<CollectionListener<T>>();
+    const state: Collection<T> & CollectionState<T> = {
+        [contributionsKey]: contributions,
+        [listenersKey]: listeners,
+        isFrogeCollection: true,
+        get size() {
+            return contributions.size;
+        },
+        items: () => Array.from(contributions.values()),
+        [Symbol.iterator]: () => contributions.values(),
+        subscribe: listener => {
+            listeners.add(listener);
+            for (const [contributor, item] of contributions) {
+                listener.added?.(item, contributor);
+            }
+            return () => { listeners.delete(listener); };
+        },
+    };
+    return state;
+}
+
+export function isCollection(value: unknown): value is Collection<unknown> {
+    return (value as Partial<Collection<unknown>> | undefined)?.isFrogeCollection === true;
+}
+
+/** Listener errors are collected, so every listener is called */
+function notify<T>(collection: Collection<T>, call: (listener: CollectionListener<T>) => void) {
+    const errors: unknown[] = [];
+    for (const listener of (collection as Collection<T> & CollectionState<T>)[listenersKey]) {
+        try {
+            call(listener);
+        } catch (e) {
+            errors.push(e);
+        }
+    }
+    if (errors.length > 0) {
+        throw new AggregateError(errors, `Collection listeners failed: ${errors.map((e: any) => e?.message ?? e).join(', ')}`);
+    }
+}
+
+export function addContribution<T>(collection: Collection<T>, contributor: string, item: T) {
+    (collection as Collection<T> & CollectionState<T>)[contributionsKey].set(contributor, item);
+    notify(collection, listener => listener.added?.(item, contributor));
+}
+
+export function removeContribution<T>(collection: Collection<T>, contributor: string) {
+    const contributions = (collection as Collection<T> & CollectionState<T>)[contributionsKey];
+    if (!contributions.has(contributor)) {
+        return;
+    }
+    const item = contributions.get(contributor)!;
+    contributions.delete(contributor);
+    notify(collection, listener => listener.removed?.(item, contributor));
+}
@@ -0,0 +1,13 @@
+/** Destroyer for values implementing explicit resource management protocol, used if no destroyer is registered */
+export function disposerOf(value: unknown): (() => PromiseLike<void> | void) | undefined {
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+        return;
+    }
+    const disposable = value as Partial<AsyncDisposable & Disposable>;
+    if (typeof disposable[Symbol.asyncDispose] === 'function') {
+        return () => disposable[Symbol.asyncDispose]!();
+    }
+    if (typeof disposable[Symbol.dispose] === 'function') {
+        return () => disposable[Symbol.dispose]!();
+    }
+}
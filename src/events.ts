@@ -0,0 +1,32 @@
+export interface ServiceEventInfo {
+    key: string,
+    group?: string,
+    level: number,
+}
+
+// note: update in README as well
+export interface FrogeEvents {
+    starting: [],
+    serviceStarting: [ServiceEventInfo],
+    serviceReady: [ServiceEventInfo & { durationMs: number }],
+    serviceFailed: [ServiceEventInfo & { durationMs: number, error: unknown, stage: 'start' | 'stop' }],
+    serviceStopping: [ServiceEventInfo],
+    serviceStopped: [ServiceEventInfo & { durationMs: number }],
+    serviceCrashed: [ServiceEventInfo & { error?: unknown, action: 'restart' | 'disable' | 'shutdown' }],
+    pluginStarted: [{ level: number, services: string[], durationMs: number }],
+    started: [{ durationMs: number }],
+    stopping: [{ reason?: string }],
+    stopped: [{ durationMs: number, error?: unknown }],
+    shutdownTimeout: [{ timeoutMs: number }],
+}
+
+/** Events which are re-emitted by the server using a plugin */
+export const forwardedEvents = [
+    'serviceStarting',
+    'serviceReady',
+    'serviceFailed',
+    'serviceStopping',
+    'serviceStopped',
+    'serviceCrashed',
+    'pluginStarted',
+] as const satisfies (keyof FrogeEvents)[];
@@ -0,0 +1,133 @@
+export interface GraphService {
+    key: string,
+    group?: string,
+    /** Group level, for plugin services it's the level after which plugin is used */
+    level: number,
+    /** Name of the plugin which provides the service */
+    plugin?: string,
+    plug: boolean,
+    lazy: boolean,
+    /** Has a destroyer, or a started value which is disposable */
+    destroyer: boolean,
+    /** Services and unresolved plugins which start first, either declared with dependsOn or implied by groups */
+    dependsOn: string[],
+}
+
+export interface GraphPlugin {
+    name: string,
+    level: number,
+    /** Factory plugins are resolved when started, before that their services are unknown */
+    resolved: boolean,
+    services: string[],
+    /** Services and unresolved plugins which start first */
+    dependsOn: string[],
+}
+
+export interface ServiceGraph {
+    services: GraphService[],
+    plugins: GraphPlugin[],
+}
+
+interface Edge {
+    from: string,
+    to: string,
+}
+
+/** Only keep edges which are not implied by other edges, so diagrams are readable */
+function reducedEdges(graph: ServiceGraph): Edge[] {
+    const nodes = [
+        ...graph.services.map(service => ({name: service.key, dependsOn: service.dependsOn})),
+        ...graph.plugins.filter(plugin => !plugin.resolved).map(plugin => ({name: plugin.name, dependsOn: plugin.dependsOn})),
+    ];
+    const deps = new Map<string, string[]>(nodes.map(node => [node.name, node.dependsOn]));
+    const ancestors = new Map<string, Set<string>>();
+    const ancestorsOf = (name: string): Set<string> => {
+        let result = ancestors.get(name);
+        if (!result) {
+            result = new Set();
+            ancestors.set(name, result);
+            for (const dep of deps.get(name) ?? []) {
+                result.add(dep);
+                ancestorsOf(dep).forEach(ancestor => result!.add(ancestor));
+            }
+        }
+        return result;
+    };
+    return nodes.flatMap(node => node.dependsOn
+        .filter(dep => !node.dependsOn.some(other => other !== dep && ancestorsOf(other).has(dep)))
+        .map(dep => ({from: dep, to: node.name})));
+}
+
+interface Cluster {
+    label: string,
+    nodes: {name: string, label: string}[],
+    unresolved?: boolean,
+}
+
+function clusters(graph: ServiceGraph): Cluster[] {
+    const result: Cluster[] = [];
+    const label = (service: GraphService) => service.key + (service.plug ? ' (plug)' : '') + (service.lazy ? ' (lazy)' : '');
+    const levels = Map.groupBy(graph.services.filter(service => !service.plugin), service => service.level);
+    for (const [level, services] of levels) {
+        result.push({
+            label: services[0].group ? `${services[0].group} (level ${level})` : `level ${level}`,
+            nodes: services.map(service => ({name: service.key, label: label(service)})),
+        });
+    }
+    for (const plugin of graph.plugins) {
+        result.push({
+            label: plugin.name,
+            nodes: plugin.resolved
+                ? graph.services.filter(service => service.plugin === plugin.name).map(service => ({name: service.key, label: label(service)}))
+                : [{name: plugin.name, label: 'unresolved'}],
+            unresolved: !plugin.resolved,
+        });
+    }
+    return result;
+}
+
+function nodeIds(graph: ServiceGraph) {
+    const ids = new Map<string, string>();
+    for (const name of [...graph.services.map(service => service.key), ...graph.plugins.map(plugin => plugin.name)]) {
+        ids.has(name) || ids.set(name, `n${ids.size}`);
+    }
+    return ids;
+}
+
+export function graphToMermaid(graph: ServiceGraph): string {
+    const ids = nodeIds(graph);
+    const text = (value: string) => `"${value.replaceAll('"', '#quot;')}"`;
+    const lines = ['flowchart TD'];
+    clusters(graph).forEach((cluster, index) => {
+        lines.push(`    subgraph c${index} [${text(cluster.label)}]`);
+        for (const node of cluster.nodes) {
+            lines.push(cluster.unresolved
+                ? `        ${ids.get(node.name)}[[${text(node.label)}]]`
+                : `        ${ids.get(node.name)}[${text(node.label)}]`);
+        }
+        lines.push('    end');
+    });
+    for (const edge of reducedEdges(graph)) {
+        lines.push(`    ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+    }
+    return lines.join('\n');
+}
+
+export function graphToDot(graph: ServiceGraph): string {
+    const ids = nodeIds(graph);
+    const text = (value: string) => `"${value.replaceAll('\\', '\\\\').replaceAll('"', '\\"')}"`;
+    const lines = ['digraph froge {', '    node [shape=box];'];
+    clusters(graph).forEach((cluster, index) => {
+        lines.push(`    subgraph cluster_${index} {`);
+        lines.push(`        label=${text(cluster.label)};`);
+        for (const node of cluster.nodes) {
+            lines.push(`        ${ids.get(node.name)} [label=${text(node.label)}${cluster.unresolved ? ', style=dashed' : ''}];`);
+        }
+        lines.push('    }');
+    });
+    for (const edge of reducedEdges(graph)) {
+        lines.push(`    ${ids.get(edge.from)} -> ${ids.get(edge.to)};`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+}
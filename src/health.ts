@@ -0,0 +1,68 @@
+import { withTimeout } from './policy';
+
+type MaybePromise<T> = T|Promise<T>;
+
+/** Health check fails if it throws, rejects or returns false */
+export type HealthCheck<T> = (service: T) => MaybePromise<boolean|void>;
+
+export interface HealthCheckOptions<T> {
+    check: HealthCheck<T>,
+    /** Overrides healthCheckTimeoutMs config option for this check */
+    timeoutMs?: number,
+    /** Failed non-critical check makes the server degraded instead of unhealthy (default: true) */
+    critical?: boolean,
+}
+
+export type HealthChecks<ServiceMap extends {}> = {
+    [T in keyof ServiceMap]?: HealthCheck<ServiceMap[T]> | HealthCheckOptions<ServiceMap[T]>
+};
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface ServiceHealth {
+    status: 'pass' | 'fail',
+    critical: boolean,
+    latencyMs: number,
+    error?: string,
+}
+
+export interface HealthReport<ServiceMap extends {}> {
+    status: HealthStatus,
+    checkedAt: Date,
+    /** Only started services with a health check are listed */
+    services: {
+        [T in keyof ServiceMap]?: ServiceHealth
+    },
+}
+
+export async function runHealthCheck<T>(
+    definition: HealthCheck<T> | HealthCheckOptions<T>,
+    service: T,
+    defaultTimeoutMs: number,
+): Promise<ServiceHealth> {
+    const options = typeof definition === 'function' ? {check: definition} : definition;
+    const critical = options.critical ?? true;
+    const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+    const startedAt = performance.now();
+    try {
+        const result = await withTimeout(
+            Promise.resolve().then(() => options.check(service)),
+            timeoutMs,
+            `Health check timed out after ${timeoutMs}ms`,
+        );
+        if (result === false) {
+            throw new Error('Health check failed');
+        }
+        return {status: 'pass', critical, latencyMs: performance.now() - startedAt};
+    } catch (e: any) {
+        return {status: 'fail', critical, latencyMs: performance.now() - startedAt, error: e?.message ?? String(e)};
+    }
+}
+
+export function aggregateHealth(results: ServiceHealth[]): HealthStatus {
+    const failed = results.filter(result => result.status === 'fail');
+    if (failed.some(result => result.critical)) {
+        return 'unhealthy';
+    }
+    return failed.length > 0 ? 'degraded' : 'healthy';
+}
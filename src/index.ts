@@ -1,13 +1,28 @@
+import { EventEmitter } from 'node:events';
+import { constants } from 'node:os';
 import envHelper from './env';
 import { type Plug, plug } from './plug';
+import { type ServicePolicy, backoffDelay, sleep, withTimeout } from './policy';
+import { type FrogeLogger, type LogLevel, type ServiceLogger, consoleLogger, createServiceLogger, isLevelEnabled } from './logger';
+import { type ItemTiming, type TimingReport, criticalPath, formatTimings } from './timings';
+import { type GraphNode, dependencyClosure, runGraph, topologicalOrder } from './scheduler';
+import { type ServiceGraph, type GraphService } from './graph';
+import { type FrogeEvents, type ServiceEventInfo, forwardedEvents } from './events';
+import { type ServiceLifetime, type ScopedFactory, FrogeScope } from './scope';
+import { disposerOf } from './dispose';
+import { type PluginDefinition, type PluginRequirements } from './plugin';
+import { type Collection, addContribution, collection, isCollection, removeContribution } from './collection';
+import { type HealthCheck, type HealthCheckOptions, type HealthChecks, type HealthReport, aggregateHealth, runHealthCheck } from './health';
 
 const AsyncFunction = async function () {}.constructor;
 
 type MaybePromise<T> = T|Promise<T>;
 type UnpackPromise<T> = T extends Promise<infer R> ? R : T;
 type UnpackAsyncFunction<T> = T extends (...args: any) => infer R ? UnpackPromise<R> : T;
+type UnpackServiceDefinition<T> = T extends { init: infer F, optional: true } ? UnpackAsyncFunction<F> | undefined
+    : T extends { init: infer F } ? UnpackAsyncFunction<F> : UnpackAsyncFunction<T>;
 type UnpackAsyncMap<Map extends {}> = {
-    [K in keyof Map]: UnpackAsyncFunction<Map[K]>;
+    [K in keyof Map]: UnpackServiceDefinition<Map[K]>;
 };
 
 export interface CommonFrogeContext<ServiceMap extends {}> {
@@ -16,10 +31,62 @@ export interface CommonFrogeContext<ServiceMap extends {}> {
 }
 
 export interface FrogeContext<ServiceMap extends {}> extends CommonFrogeContext<ServiceMap> {
-    log: (...items: any) => void,
+    log: ServiceLogger,
     plug: <T extends NonNullable<unknown>>() => Plug<T>,
+    /** Collection of items contributed by later services, which declare it in "contributes" */
+    collection: <T>() => Collection<T>,
+    /** Tell the server that started service has crashed, it's handled according to the restart policy */
+    fail: (error?: unknown) => void,
+    /** Aborted when the server begins to stop or init attempt times out, long inits should give up */
+    signal: AbortSignal,
 }
 
+export interface ServiceDefinition<ServiceMap extends {}, T> {
+    init: (ctx: FrogeContext<ServiceMap>) => T,
+    /**
+     * Start as soon as these services are ready, instead of waiting for all services from previous groups.
+     * Only listed services are guaranteed to be started when init is called.
+     */
+    dependsOn?: (keyof ServiceMap & string)[],
+    /** Don't start with the server, but on first access (use "await server.get(key)" for async services) */
+    lazy?: boolean,
+    /** Scoped and transient services are not started with the server, but created within createScope() */
+    lifetime?: ServiceLifetime,
+    /** Failed init doesn't fail the start, service is seen as undefined by dependents until restarted */
+    optional?: boolean,
+    /**
+     * Promise which settles when started service exits, e.g. a consumer loop.
+     * Rejection is handled like ctx.fail(), resolution is a clean exit (restarted only with 'always' restart policy).
+     */
+    exited?: (service: UnpackPromise<T>) => Promise<unknown>,
+    /** Items added to collections of earlier services while this service is up, collection owners start first */
+    contributes?: {
+        [K in keyof ServiceMap]?: ServiceMap[K] extends Collection<infer I> ? (service: UnpackPromise<T>) => I : never
+    },
+}
+
+export interface ServiceOverride<ServiceMap extends {}, T> {
+    init: (ctx: FrogeContext<ServiceMap>) => MaybePromise<T>,
+    /** Replaces destroyer of the original service, which is dropped if not set */
+    destroy?: (service: T) => MaybePromise<void>,
+}
+
+// note: update in README as well
+export interface UseOptions<Prefix extends string> {
+    /** Change plugin config to match main instance (default: true) */
+    pushConfig?: boolean,
+    /** Mount plugin services as prefix + capitalized key, e.g. "replica" mounts db as replicaDb */
+    prefix?: Prefix,
+}
+
+/** Plugin definition is only accepted if the server has all required services, of compatible types */
+type RequiredPlugin<ServiceMap extends {}, Requires extends {}, ServiceMapOut extends {}>
+    = PluginDefinition<Requires, ServiceMapOut> & (ServiceMap extends Requires ? unknown : never);
+
+type MountedServices<Map extends {}, Prefix extends string> = Prefix extends ''
+    ? Map
+    : {[K in keyof Map & string as `${Prefix}${Capitalize<K>}`]: Map[K]};
+
 type PlugCallback<T extends keyof ServiceMap, ServiceMap extends {}>
     = ServiceMap[T] extends Plug<infer S> ? (ctx: FrogeContext<ServiceMap>) => MaybePromise<() => S> : never;
 
@@ -33,34 +100,148 @@ export interface FrogeConfig {
     gracefulShutdownTimeoutMs?: number,
     /** Force exit the current process after shutdown is completed */
     forceExitAfterShutdown: boolean,
-    /** Print info logs */
+    /** Print info logs (if disabled, only warnings and errors are printed) */
     verbose: boolean,
+    /** Minimum level of printed logs */
+    logLevel: LogLevel,
+    /** Where logs are sent, prints to console by default */
+    logger: FrogeLogger,
+    /** Default timeout for each health check */
+    healthCheckTimeoutMs: number,
+    /** On reload(), restart started services which don't have a reload hook */
+    restartOnReload: boolean,
+    /** Signals which trigger shutdown() in launch(), repeated signal during shutdown forces exit with code 128 + signal number */
+    shutdownSignals: NodeJS.Signals[],
+    /** Shut down on uncaughtException and unhandledRejection in launch(), then exit with code 1 */
+    shutdownOnCrash: boolean,
 }
 const defaultConfig: FrogeConfig = {
     parallelStartGroups: true,
     parallelStopGroups: true,
+    healthCheckTimeoutMs: 5000,
+    restartOnReload: false,
+    shutdownSignals: ['SIGINT', 'SIGTERM'],
+    shutdownOnCrash: false,
     forceExitAfterShutdown: false,
     verbose: true,
+    logLevel: 'info',
+    logger: consoleLogger,
 }
 
 interface ServiceContainer<T> {
     level: number,
     group?: string,
-    up: boolean,
+    state: ServiceState,
+    /** When the service has entered current state */
+    since: Date,
+    startedAt?: Date,
+    stoppedAt?: Date,
+    /** Last start, stop or crash error */
+    lastError?: {error: unknown, stage: 'start' | 'stop' | 'crash'},
     init: (ctx: FrogeContext<any>) => MaybePromise<T>,
     destroy?: (service: T) => MaybePromise<void>,
+    reload?: (service: T, ctx: FrogeContext<any>) => MaybePromise<void>,
+    dependsOn?: string[],
+    lazy?: boolean,
+    lifetime?: ServiceLifetime,
+    optional?: boolean,
+    exited?: (service: T) => Promise<unknown>,
+    /** Incremented on each start, so crashes of previous instances are ignored */
+    generation: number,
+    /** Set while destroyer is running, crashes reported by it are not crashes */
+    stopping?: Promise<void>,
+    /** Generation which crashed, so repeated crash reports are handled once */
+    crashed?: number,
+    /** Times of restarts by supervisor, within restart window */
+    restarts?: number[],
+    /** Set while service is starting, so concurrent starts (e.g. of lazy services) are awaited instead of repeated */
+    starting?: Promise<void>,
+    policy?: ServicePolicy,
+    health?: HealthCheck<T> | HealthCheckOptions<T>,
+    /** Replaced by a fake, which is never destroyed, keeps original fields for unmock() */
+    mocked?: Pick<ServiceContainer<T>, 'init' | 'destroy' | 'reload' | 'exited' | 'health' | 'policy' | 'contributes' | 'dependsOn' | 'lifetime'>,
+    contributes?: Partial<Record<string, (service: T) => unknown>>,
+    /** Remove items of this service from collections, when it's not up anymore */
+    contributions?: (() => void)[],
     value?: T,
     plug?: Plug<T>,
     serverSymbol: Symbol,
 }
 
-type PluginFactory<ServiceMapIn extends {}, ServiceMapOut extends {}>
-    = (ctx: CommonFrogeContext<ServiceMapIn>) => FrogeServer<ServiceMapOut, any> | Promise<FrogeServer<ServiceMapOut, any>>;
+export interface PluginContext<ServiceMap extends Record<string,any>> extends CommonFrogeContext<ServiceMap> {
+    /** Server which is using the plugin */
+    parent: FrogeServer<ServiceMap, any>,
+}
+
+type PluginFactory<ServiceMapIn extends Record<string,any>, ServiceMapOut extends {}>
+    = (ctx: PluginContext<ServiceMapIn>) => FrogeServer<ServiceMapOut, any> | Promise<FrogeServer<ServiceMapOut, any>>;
+
+/** Things started during a single start() call, in order, so they can be rolled back on failure */
+type StartTracker = {
+    name: string,
+    rollback: () => Promise<void>,
+}[];
+
+export type LifecyclePhase = 'stopped' | 'starting' | 'started' | 'stopping';
+
+/** registered -> starting -> up -> stopping -> down | failed */
+export type ServiceState = 'registered' | 'starting' | 'up' | 'stopping' | 'down' | 'failed';
+
+export interface ServiceStatus {
+    state: ServiceState,
+    /** When the service has entered current state */
+    since: Date,
+    /** When the service was last started */
+    startedAt?: Date,
+    /** When the service was last stopped */
+    stoppedAt?: Date,
+    /** Message of the last start, stop or crash error */
+    error?: string,
+    group?: string,
+    level: number,
+    /** Name of the plugin which provides the service */
+    plugin?: string,
+}
+
+export interface ServerStatus<ServiceMap extends {}> {
+    phase: LifecyclePhase,
+    services: {
+        [K in keyof ServiceMap]: ServiceStatus
+    },
+}
+
+export interface ServiceReloadResult {
+    /** Services without reload hook are restarted if restartOnReload is enabled, together with their dependents */
+    status: 'reloaded' | 'restarted' | 'failed',
+    durationMs: number,
+    error?: unknown,
+}
+
+export interface ReloadReport<ServiceMap extends {}> {
+    /** Only services which were reloaded or restarted are listed */
+    services: {
+        [K in keyof ServiceMap]?: ServiceReloadResult
+    },
+}
+
+type StartNode = GraphNode<
+    | {kind: 'service', key: string, container: ServiceContainer<any>}
+    | {kind: 'plugin', plugin: PluginContainer}
+>;
 
 interface PluginContainer {
     factory: PluginFactory<any, any>,
     pushConfig: boolean,
+    /** Plugin services are mounted as prefix + capitalized key */
+    prefix?: string,
+    /** Set for plugins created with definePlugin() */
+    name?: string,
+    requires?: PluginRequirements<any>,
+    /** Known in advance if plugin is used as an instance, not a factory */
+    instance?: FrogeServer<any,any>,
     server?: FrogeServer<any,any>,
+    /** Stop re-emitting plugin events */
+    unforward?: () => void,
 };
 
 class FrogeServer<ServiceMap extends Record<string,any>, ServiceGroups extends Record<string,Record<string,any>>> {
@@ -70,12 +251,81 @@ class FrogeServer<ServiceMap extends Record<string,any>, ServiceGroups extends R
     private plugins = new Map<number, PluginContainer[]>;
     private currentLevel: number = -1;
     private symbol = Symbol();
+    private phase: LifecyclePhase = 'stopped';
+    /** Aborted by stop(), so start in progress doesn't start anything new */
+    private startAbort = new AbortController();
+    /** Starts in progress, stop() waits for them to finish or roll back */
+    private pendingStarts = new Set<Promise<void>>();
+    /** Set while started as a plugin, crashes which need a shutdown are escalated to it */
+    private parentServer?: FrogeServer<any,any>;
+    /** Added by launch(), removed after stop */
+    private processListeners: [string, (...args: any[]) => void][] = [];
+    private events = new EventEmitter<FrogeEvents>();
+    private timing = {
+        startMs: undefined as number|undefined,
+        stopMs: undefined as number|undefined,
+        items: new Map<string, ItemTiming>(),
+        levels: new Map<number, number>(),
+    };
 
     public configure(config: Partial<FrogeConfig>) {
         this.config = {...this.config, ...config};
         return this;
     }
 
+    private readonly log: FrogeLogger = {
+        debug: (message, fields) => this.writeLog('debug', message, fields),
+        info: (message, fields) => this.writeLog('info', message, fields),
+        warn: (message, fields) => this.writeLog('warn', message, fields),
+        error: (message, fields) => this.writeLog('error', message, fields),
+    };
+
+    private writeLog(level: LogLevel, message: string, fields?: Record<string, unknown>) {
+        if (!isLevelEnabled(level, this.config.logLevel) || (!this.config.verbose && !isLevelEnabled(level, 'warn'))) {
+            return;
+        }
+        this.config.logger[level](message, fields);
+    }
+
+    /** Subscribe to lifecycle events */
+    public on<E extends keyof FrogeEvents>(event: E, listener: (...args: FrogeEvents[E]) => void) {
+        this.events.on(event, listener as any);
+        return this;
+    }
+
+    /** Subscribe to the next lifecycle event of this type */
+    public once<E extends keyof FrogeEvents>(event: E, listener: (...args: FrogeEvents[E]) => void) {
+        this.events.once(event, listener as any);
+        return this;
+    }
+
+    public off<E extends keyof FrogeEvents>(event: E, listener: (...args: FrogeEvents[E]) => void) {
+        this.events.off(event, listener as any);
+        return this;
+    }
+
+    private emit<E extends keyof FrogeEvents>(event: E, ...args: FrogeEvents[E]) {
+        try {
+            this.events.emit(event, ...args as any);
+        } catch (e) {
+            // Listeners must not break the lifecycle
+            this.log.error(`Listener of "${event}" event failed:`, {error: e});
+        }
+    }
+
+    private forwardEvents(plugin: FrogeServer<any,any>, prefix?: string) {
+        const listeners = forwardedEvents.map(event => {
+            const listener = (info: any) => this.emit(event, prefix ? {
+                ...info,
+                ...('key' in info ? {key: FrogeServer.mountedKey(info.key, prefix)} : {}),
+                ...('services' in info ? {services: info.services.map((key: string) => FrogeServer.mountedKey(key, prefix))} : {}),
+            } : info);
+            plugin.on(event, listener);
+            return () => plugin.off(event, listener);
+        });
+        return () => listeners.forEach(off => off());
+    }
+
     public readonly services: ServiceMap = new Proxy({}, {
         get: (_, prop: string) => {
             const service = this.map.get(prop);
@@ -85,18 +335,91 @@ class FrogeServer<ServiceMap extends Record<string,any>, ServiceGroups extends R
             if (service.plug) {
                 return service.plug;
             }
-            if (!service.up) {
-                throw new Error(`Can't access service "${prop}" before it was started`);
+            if (service.lifetime) {
+                throw new Error(`Can't access ${service.lifetime} service "${prop}" outside of a scope, use server.createScope()`);
+            }
+            if (service.state === 'up') {
+                return service.value;
             }
-            return service.value;
+            if (service.state === 'failed' && service.optional) {
+                return undefined;
+            }
+            // stop() may have passed the lazy service already, so it wouldn't be destroyed
+            if (service.state !== 'stopping' && service.lazy && this.phase !== 'stopping') {
+                return this.startLazySync(prop, service);
+            }
+            throw new Error(FrogeServer.unavailableMessage(prop, service));
         },
     }) as ServiceMap;
 
+    private static errorMessage(error: any) {
+        return error?.message ?? String(error);
+    }
+
+    private static unavailableMessage(key: string, container: ServiceContainer<any>) {
+        const error = container.lastError ? FrogeServer.errorMessage(container.lastError.error) : 'unknown error';
+        switch (container.state) {
+            case 'registered': return `Can't access service "${key}" before it was started`;
+            case 'starting': return `Can't access service "${key}" while it is starting`;
+            case 'stopping': return `Can't access service "${key}" while it is stopping`;
+            case 'down': return `Can't access service "${key}" after it was stopped`;
+            default: return container.lastError?.stage === 'crash'
+                ? `Service "${key}" crashed: ${error}`
+                : `Service "${key}" failed to ${container.lastError?.stage ?? 'start'}: ${error}`;
+        }
+    }
+
+    /** Get a service, starting it first if it's lazy (or not started yet) */
+    public async get<K extends keyof ServiceMap & string>(key: K): Promise<ServiceMap[K]> {
+        const container = this.map.get(key);
+        if (container && container.state !== 'up' && !(container.optional && container.state === 'failed') && container.serverSymbol === this.symbol && this.phase !== 'stopping') {
+            await this.startInternal(key);
+        }
+        return this.services[key];
+    }
+
+    /** Services are accessed synchronously, so lazy service can only be started here if it's ready to start and not async */
+    private startLazySync(key: string, container: ServiceContainer<any>) {
+        const node = this.buildGraph().find(node => node.name === key && node.item.kind === 'service')!;
+        const ready = Array.from(dependencyClosure(node.deps)).every(dep => dep.item.kind === 'service'
+            ? dep.item.container.state === 'up'
+            : typeof dep.item.plugin.server !== 'undefined');
+        if (!ready || container.starting || container.policy) {
+            throw new Error(`Lazy service "${key}" can't be started synchronously, use "await server.get('${key}')" instead`);
+        }
+        const start = this.beginStart(key, container);
+        let value: any;
+        try {
+            value = container.init(this.createContext(key));
+        } catch (error) {
+            this.failStart(key, container, start, error);
+            if (this.failOptional(key, container, error)) {
+                return undefined;
+            }
+            throw error;
+        }
+        if (value instanceof Promise) {
+            container.starting = value
+                .then(value => this.completeStart(key, container, value, start, []), error => {
+                    this.failStart(key, container, start, error);
+                    if (!this.failOptional(key, container, error)) {
+                        throw error;
+                    }
+                })
+                .finally(() => container.starting = undefined);
+            // Error is delivered to whoever awaits the service, see get()
+            container.starting.catch(() => {});
+            throw new Error(`Lazy service "${key}" is initialized asynchronously, use "await server.get('${key}')" to access it`);
+        }
+        this.completeStart(key, container, value, start, []);
+        return container.value;
+    }
+
     public up<NewServices extends (
         {
             // Don't allow to override existing properties unless it's a plug
             [T in keyof ServiceMap]?: PlugCallback<T, ServiceMap>
-        } & Record<string, (ctx: FrogeContext<ServiceMap>) => any>
+        } & Record<string, ((ctx: FrogeContext<ServiceMap>) => any) | ServiceDefinition<ServiceMap, any>>
     ), GroupKey extends string|undefined>(
         services: NewServices,
         group?: GroupKey,
@@ -106,6 +429,7 @@ class FrogeServer<ServiceMap extends Record<string,any>, ServiceGroups extends R
         }
         const level = ++this.currentLevel;
         for (const key in services) {
+            const definition: ServiceDefinition<ServiceMap, any> = typeof services[key] === 'function' ? {init: services[key]} : services[key];
             const existing = this.map.get(key);
             let maybePlug: any;
             if (existing) {
@@ -134,7 +458,22 @@ class FrogeServer<ServiceMap extends Record<string,any>, ServiceGroups extends R
                 // Ok, we are satisfied, it's definitely a plug. Deleted to ensure correct startup order.
                 this.map.delete(key);
             }
-            this.map.set(key, {level, group, up: false, init: services[key], plug: maybePlug, serverSymbol: this.symbol});
+            this.map.set(key, {
+                level,
+                group,
+                state: 'registered',
+                since: new Date(),
+                init: definition.init,
+                dependsOn: definition.dependsOn,
+                lazy: definition.lazy,
+                lifetime: definition.lifetime === 'singleton' ? undefined : definition.lifetime,
+                optional: definition.optional,
+                exited: definition.exited,
+                contributes: definition.contributes,
+                generation: 0,
+                plug: maybePlug,
+                serverSymbol: this.symbol,
+            });
         }
         group && this.groups.add(group);
         return this as FrogeServer<
@@ -156,19 +495,216 @@ class FrogeServer<ServiceMap extends Record<string,any>, ServiceGroups extends R
         return this;
     }
 
+    public reload<NewReloaders extends {
+        [T in keyof ServiceMap]?: (service: ServiceMap[T], ctx: FrogeContext<ServiceMap>) => MaybePromise<void>
+    }>(reloaders: NewReloaders): this;
+    /** Call reload hooks of started services in start order, failures are reported but not thrown */
+    public reload(): Promise<ReloadReport<ServiceMap>>;
+    public reload(reloaders?: Record<string, ServiceContainer<any>['reload']>): this | Promise<ReloadReport<ServiceMap>> {
+        if (typeof reloaders === 'undefined') {
+            return this.reloadInternal();
+        }
+        for (const key in reloaders) {
+            const service = this.map.get(key);
+            if (typeof service === 'undefined') {
+                throw new Error(`Trying to add reload hook to unknown service ${key}`);
+            }
+            service.reload = reloaders[key];
+        }
+        return this;
+    }
+
+    private async reloadInternal(): Promise<ReloadReport<ServiceMap>> {
+        this.log.info('Reloading...');
+        const services: Record<string, ServiceReloadResult> = {};
+        for (const node of topologicalOrder(this.buildGraph())) {
+            if (node.item.kind === 'plugin') {
+                if (node.item.plugin.server) {
+                    Object.assign(services, (await node.item.plugin.server.reload()).services);
+                }
+                continue;
+            }
+            const {key, container} = node.item;
+            // services restarted together with their dependencies are already listed
+            if (container.state !== 'up' || key in services || (!container.reload && !this.config.restartOnReload)) {
+                continue;
+            }
+            const startedAt = performance.now();
+            try {
+                if (container.reload) {
+                    await container.reload(container.value, this.createContext(key));
+                    services[key] = {status: 'reloaded', durationMs: performance.now() - startedAt};
+                    this.log.info('Reloaded', {service: key});
+                } else {
+                    const restarted = await this.restartInternal(key);
+                    for (const restartedKey of restarted) {
+                        services[restartedKey] = {status: 'restarted', durationMs: performance.now() - startedAt};
+                    }
+                }
+            } catch (error) {
+                this.log.error('Reload failed', {service: key, error});
+                services[key] = {status: 'failed', durationMs: performance.now() - startedAt, error};
+            }
+        }
+        return {services} as ReloadReport<ServiceMap>;
+    }
+
+    /**
+     * Replace init and destroyer of existing services, keeping their group and start order.
+     * Overrides are only applied if "when" is true, e.g. to use in-memory cache in development:
+     *
+     *     .override({cache: () => new MemoryCache()}, envs.NODE_ENV.s('development') === 'development')
+     */
+    public override<NewServices extends {
+        // Plugs are overridden with up()
+        [T in keyof ServiceMap]?: ServiceMap[T] extends Plug<any>
+            ? never
+            : ((ctx: FrogeContext<ServiceMap>) => MaybePromise<ServiceMap[T]>) | ServiceOverride<ServiceMap, ServiceMap[T]>
+    }>(services: NewServices, when = true) {
+        if (!when) {
+            return this;
+        }
+        if (this.phase !== 'stopped') {
+            throw new Error(`Trying to override services while server is ${this.phase} (${Object.keys(services).join(', ')})`);
+        }
+        for (const key in services) {
+            const service = this.map.get(key);
+            if (typeof service === 'undefined' || service.serverSymbol !== this.symbol) {
+                throw new Error(`Trying to override unknown service ${key}`);
+            }
+            const definition: ServiceOverride<ServiceMap, any> = typeof services[key] === 'function' ? {init: services[key]} : services[key]!;
+            service.init = definition.init;
+            service.destroy = definition.destroy;
+        }
+        return this;
+    }
+
+    /**
+     * Replace services with fakes, which don't depend on anything and aren't destroyed on stop.
+     * Intended for tests, see froge/testing.
+     */
+    public mock<NewMocks extends {
+        [T in keyof ServiceMap]?: ServiceMap[T]
+    }>(mocks: NewMocks) {
+        if (this.phase !== 'stopped') {
+            throw new Error(`Trying to mock services while server is ${this.phase} (${Object.keys(mocks).join(', ')})`);
+        }
+        for (const key in mocks) {
+            const service = this.map.get(key);
+            if (typeof service === 'undefined' || service.serverSymbol !== this.symbol) {
+                throw new Error(`Trying to mock unknown service ${key}`);
+            }
+            const value = mocks[key];
+            const {init, destroy, reload, exited, health, policy, contributes, dependsOn, lifetime} = service;
+            Object.assign(service, {
+                init: () => value,
+                destroy: undefined,
+                reload: undefined,
+                exited: undefined,
+                health: undefined,
+                policy: undefined,
+                contributes: undefined,
+                dependsOn: [],
+                lifetime: undefined,
+                // mocking again keeps the real service
+                mocked: service.mocked ?? {init, destroy, reload, exited, health, policy, contributes, dependsOn, lifetime},
+            });
+        }
+        return this;
+    }
+
+    /** Restore real services replaced by mock(), all of them unless keys are given */
+    public unmock(...keys: (keyof ServiceMap & string)[]) {
+        if (this.phase !== 'stopped') {
+            throw new Error(`Trying to unmock services while server is ${this.phase}`);
+        }
+        for (const [key, service] of this.map) {
+            if (service.mocked && service.serverSymbol === this.symbol && (keys.length === 0 || keys.includes(key))) {
+                Object.assign(service, service.mocked, {mocked: undefined});
+            }
+        }
+        return this;
+    }
+
+    public policy<NewPolicies extends {
+        [T in keyof ServiceMap]?: ServicePolicy
+    }>(policies: NewPolicies) {
+        for (const key in policies) {
+            const service = this.map.get(key);
+            if (typeof service === 'undefined') {
+                throw new Error(`Trying to add policy to unknown service ${key}`);
+            }
+            service.policy = policies[key];
+        }
+        return this;
+    }
+
+    /** Run health checks of all started services */
+    public health(): Promise<HealthReport<ServiceMap>>;
+    /** Add health checks for services */
+    public health(checks: HealthChecks<ServiceMap>): this;
+    public health(checks?: HealthChecks<ServiceMap>): this | Promise<HealthReport<ServiceMap>> {
+        if (typeof checks === 'undefined') {
+            return this.runHealthChecks();
+        }
+        for (const key in checks) {
+            const service = this.map.get(key);
+            if (typeof service === 'undefined') {
+                throw new Error(`Trying to add health check to unknown service ${key}`);
+            }
+            service.health = checks[key];
+        }
+        return this;
+    }
+
+    private async runHealthChecks(): Promise<HealthReport<ServiceMap>> {
+        const checkedAt = new Date();
+        const entries = await Promise.all(
+            Array.from(this.map.entries())
+                .filter(([, container]) => container.state === 'up' && container.health)
+                .map(async ([key, container]) => [
+                    key,
+                    await runHealthCheck(container.health!, container.value, this.config.healthCheckTimeoutMs),
+                ] as const),
+        );
+        return {
+            status: aggregateHealth(entries.map(([, result]) => result)),
+            checkedAt,
+            services: Object.fromEntries(entries) as HealthReport<ServiceMap>['services'],
+        };
+    }
+
     public use<
         ServiceMap2 extends {
             // Don't allow overriding existing services
             [T in keyof ServiceMap]?: never
-        } & Record<string,any>
+        } & Record<string,any>,
+        Requires extends Record<string,any> = {},
     >(
-        other: FrogeServer<ServiceMap2,any> | PluginFactory<ServiceMap,ServiceMap2>,
+        other: FrogeServer<ServiceMap2,any> | PluginFactory<ServiceMap,ServiceMap2> | RequiredPlugin<ServiceMap, Requires, ServiceMap2>,
         /** Change plugin config to match main instance */
-        pushConfig: boolean = true,
-    ) {
+        pushConfig?: boolean,
+    ): FrogeServer<ServiceMap & ServiceMap2, ServiceGroups>;
+    /** Use plugin with options, e.g. {prefix: 'replica'} to mount its db service as replicaDb */
+    public use<
+        ServiceMap2 extends Record<string,any>,
+        Prefix extends string = '',
+        Requires extends Record<string,any> = {},
+    >(
+        other: FrogeServer<ServiceMap2,any> | PluginFactory<ServiceMap,ServiceMap2> | RequiredPlugin<ServiceMap, Requires, ServiceMap2>,
+        // Don't allow overriding existing services
+        options: UseOptions<Prefix> & (keyof ServiceMap & keyof MountedServices<ServiceMap2, Prefix> extends never ? unknown : never),
+    ): FrogeServer<ServiceMap & MountedServices<ServiceMap2, Prefix>, ServiceGroups>;
+    public use(other: FrogeServer<any,any> | PluginFactory<ServiceMap,any> | PluginDefinition<any,any>, options: boolean | UseOptions<string> = true) {
+        const {pushConfig = true, prefix} = typeof options === 'boolean' ? {pushConfig: options} : options;
+        const definition = other instanceof FrogeServer || typeof other === 'function' ? undefined : other;
         const container: PluginContainer = {
-            factory: other instanceof FrogeServer ? () => other : other,
+            factory: other instanceof FrogeServer ? () => other : definition ? definition.create : other as PluginFactory<ServiceMap,any>,
             pushConfig,
+            prefix: prefix || undefined,
+            instance: other instanceof FrogeServer ? other : undefined,
+            name: definition?.name,
+            requires: definition?.requires,
         };
         const after = this.currentLevel;
         if (this.plugins.has(after)) {
@@ -176,189 +712,884 @@ class FrogeServer<ServiceMap extends Record<string,any>, ServiceGroups extends R
         } else {
             this.plugins.set(after, [container]);
         }
-        return this as FrogeServer<ServiceMap & ServiceMap2, ServiceGroups>;
+        return this;
     }
 
-    private async startPlugins(level: number) {
-        const groupPlugins = this.plugins.get(level);
-        if (!groupPlugins) {
+    private async startPlugin(plugin: PluginContainer, level: number, tracker: StartTracker) {
+        if (plugin.server) {
             return;
         }
-        for (const plugin of groupPlugins) {
-            if (plugin.server) {
-                continue;
-            }
-            plugin.server = await plugin.factory({
-                services: this.services,
-                envs: envHelper,
-            });
-            if (plugin.pushConfig) {
-                plugin.server.configure(this.config);
+        const startedAt = performance.now();
+        const server = await plugin.factory({
+            services: this.services,
+            envs: envHelper,
+            parent: this,
+        });
+        if (plugin.pushConfig) {
+            server.configure(this.config);
+        }
+        for (const key of server.map.keys()) {
+            const mountedKey = FrogeServer.mountedKey(key, plugin.prefix);
+            if (this.map.has(mountedKey)) {
+                throw new Error(`Plugin service ${key} is conflicting with existing service ${mountedKey}`);
             }
-            for (const key of plugin.server.map.keys()) {
-                if (this.map.has(key)) {
-                    throw new Error(`Plugin service ${key} is conflicting with existing service ${key}`);
+        }
+        const unforward = this.forwardEvents(server, plugin.prefix);
+        const cancel = () => server.startAbort.abort(this.startAbort.signal.reason);
+        this.startAbort.signal.addEventListener('abort', cancel, {once: true});
+        try {
+            await server.start();
+        } catch (e) {
+            unforward();
+            throw e;
+        } finally {
+            this.startAbort.signal.removeEventListener('abort', cancel);
+        }
+        plugin.server = server;
+        plugin.unforward = unforward;
+        server.parentServer = this;
+        for (const [key, container] of server.map) {
+            this.map.set(FrogeServer.mountedKey(key, plugin.prefix), container);
+        }
+        const durationMs = performance.now() - startedAt;
+        this.emit('pluginStarted', {
+            level,
+            services: Array.from(server.map.keys(), key => FrogeServer.mountedKey(key, plugin.prefix)),
+            durationMs,
+        });
+        this.itemTiming(FrogeServer.pluginName(server, plugin.prefix), 'plugin', level).startMs = durationMs;
+        tracker.push({
+            name: FrogeServer.pluginName(server, plugin.prefix),
+            rollback: () => this.stopPlugin(plugin),
+        });
+    }
+
+    /**
+     * Required services must be registered before the plugin is used, by the server itself or by previous plugins.
+     * Services of factory plugins are unknown until they are started, so anything may come from them.
+     */
+    private checkPluginRequirements() {
+        const missing: string[] = [];
+        const previous: PluginContainer[] = [];
+        for (const [level, plugins] of Array.from(this.plugins.entries()).toSorted(([a], [b]) => a - b)) {
+            plugins.forEach((plugin, index) => {
+                const name = plugin.name ?? `plugin #${index + 1} after group ${level}`;
+                const provided = (key: string) => previous.some(other => !other.instance && !other.server)
+                    || (this.map.get(key)?.serverSymbol === this.symbol && this.map.get(key)!.level <= level)
+                    || previous.some(other => (other.server ?? other.instance)?.map.keys().some(inner => FrogeServer.mountedKey(inner, other.prefix) === key));
+                for (const key of plugin.requires?.services ?? []) {
+                    if (!provided(key)) {
+                        missing.push(`${name} requires service ${key}`);
+                    }
                 }
-            }
-            await plugin.server.start();
-            for (const [key, container] of plugin.server.map) {
-                this.map.set(key, container);
-            }
+                for (const env of plugin.requires?.envs ?? []) {
+                    if (typeof process.env[env] === 'undefined') {
+                        missing.push(`${name} requires env var ${env}`);
+                    }
+                }
+                previous.push(plugin);
+            });
+        }
+        if (missing.length > 0) {
+            throw new Error(`Plugin requirements are not met: ${missing.join(', ')}`);
         }
     }
 
-    private async stopPlugins(level: number) {
-        const groupPlugins = this.plugins.get(level);
-        if (!groupPlugins) {
+    private static pluginName(server: FrogeServer<any,any>, prefix?: string) {
+        return `plugin (${Array.from(server.map.keys(), key => FrogeServer.mountedKey(key, prefix)).join(', ')})`;
+    }
+
+    private static mountedKey(key: string, prefix?: string) {
+        return prefix ? prefix + key.charAt(0).toUpperCase() + key.slice(1) : key;
+    }
+
+    private pluginOf(container: ServiceContainer<any>) {
+        if (container.serverSymbol === this.symbol) {
+            return undefined;
+        }
+        const plugin = Array.from(this.plugins.values()).flat().find(plugin => plugin.server?.map.values().some(other => other === container));
+        return plugin?.server ? FrogeServer.pluginName(plugin.server, plugin.prefix) : undefined;
+    }
+
+    private async stopPlugin(plugin: PluginContainer) {
+        if (!plugin.server) {
             return;
         }
-        for (const plugin of groupPlugins.toReversed()) {
-            if (!plugin.server) {
+        const startedAt = performance.now();
+        await plugin.server.stop();
+        const timing = this.timing.items.get(FrogeServer.pluginName(plugin.server, plugin.prefix));
+        if (timing) {
+            timing.stopMs = performance.now() - startedAt;
+        }
+        for (const key of plugin.server.map.keys()) {
+            this.map.delete(FrogeServer.mountedKey(key, plugin.prefix));
+        }
+        plugin.unforward?.();
+        plugin.server.parentServer = undefined;
+        plugin.server = undefined;
+        plugin.unforward = undefined;
+    }
+
+    private startService(key: keyof ServiceMap & string, container: ServiceContainer<any>, tracker: StartTracker): Promise<void> {
+        if (container.state === 'up') {
+            this.log.debug('Already initialized', {service: key});
+            return Promise.resolve();
+        }
+        container.starting ??= (async () => {
+            const start = this.beginStart(key, container);
+            let value: any;
+            try {
+                value = await this.initService(key, container);
+            } catch (error) {
+                this.failStart(key, container, start, error);
+                if (!this.startAbort.signal.aborted && this.failOptional(key, container, error)) {
+                    return;
+                }
+                throw error;
+            }
+            this.completeStart(key, container, value, start, tracker);
+        })().finally(() => container.starting = undefined);
+        return container.starting;
+    }
+
+    private beginStart(key: string, container: ServiceContainer<any>) {
+        this.log.info('Initializing...', {service: key});
+        this.setState(container, 'starting');
+        container.generation++;
+        const info = this.eventInfo(key, container);
+        this.emit('serviceStarting', info);
+        return {info, startedAt: performance.now()};
+    }
+
+    private setState(container: ServiceContainer<any>, state: ServiceState, error?: {error: unknown, stage: 'start' | 'stop' | 'crash'}) {
+        if (state !== 'up' && container.contributions) {
+            this.withdraw(container);
+        }
+        container.state = state;
+        container.since = new Date();
+        if (state === 'up') {
+            container.startedAt = container.since;
+        } else if (state === 'down') {
+            container.stoppedAt = container.since;
+        }
+        if (error) {
+            container.lastError = error;
+        }
+    }
+
+    /** Add items to collections of earlier services, failed collection listeners don't fail the service */
+    private contribute(key: string, container: ServiceContainer<any>) {
+        for (const [target, item] of Object.entries(container.contributes ?? {})) {
+            const owner = this.map.get(target)?.value;
+            if (!isCollection(owner)) {
+                this.log.error(`Can't contribute to service ${target}, it's not a collection`, {service: key});
                 continue;
             }
-            await plugin.server.stop();
-            for (const key of plugin.server.map.keys()) {
-                this.map.delete(key);
+            const remove = () => {
+                try {
+                    removeContribution(owner, key);
+                } catch (error) {
+                    this.log.error(`Failed to remove contribution from ${target}:`, {service: key, error});
+                }
+            };
+            (container.contributions ??= []).push(remove);
+            try {
+                addContribution(owner, key, item!(container.value));
+            } catch (error) {
+                this.log.error(`Failed to contribute to ${target}:`, {service: key, error});
             }
-            plugin.server = undefined;
         }
     }
 
-    private async startService(key: keyof ServiceMap & string, container: ServiceContainer<any>) {
-        if (container.up) {
-            this.config.verbose && console.log(`[${key}] Already initialized`);
-            return;
-        }
-        this.config.verbose && console.log(`[${key}] Initializing...`);
-        const value = container.init({
-            services: this.services,
-            envs: envHelper,
-            log: (...items: any) => this.config.verbose && console.log(`[${key}]`, ...items),
-            plug: <T>() => plug<T>(key),
-        });
-        if (value instanceof Promise) {
-            container.value = await value;
-        } else {
-            container.value = value;
+    private withdraw(container: ServiceContainer<any>) {
+        const contributions = container.contributions ?? [];
+        container.contributions = undefined;
+        contributions.forEach(remove => remove());
+    }
+
+    private failStart(key: string, container: ServiceContainer<any>, start: {info: ServiceEventInfo, startedAt: number}, error: unknown) {
+        this.setState(container, 'failed', {error, stage: 'start'});
+        this.emit('serviceFailed', {...start.info, durationMs: performance.now() - start.startedAt, error, stage: 'start'});
+    }
+
+    /** Optional services don't fail the start, returns false for other services */
+    private failOptional(key: string, container: ServiceContainer<any>, error: unknown) {
+        if (!container.optional) {
+            return false;
         }
+        this.log.error('Optional service failed to start, continuing without it:', {service: key, error});
+        return true;
+    }
+
+    private completeStart(key: string, container: ServiceContainer<any>, value: any, start: {info: ServiceEventInfo, startedAt: number}, tracker: StartTracker) {
+        container.value = value;
         if (container.plug) {
             (container.plug as any).__startedService = container.value;
         }
-        container.up = true;
+        this.setState(container, 'up');
+        this.contribute(key, container);
+        tracker.push({
+            name: key,
+            rollback: () => this.stopService(key, container),
+        });
         if (container.value?.isFrogePlug) {
-            console.warn(`[${key}] Got a plug instead of the service`);
+            this.log.warn('Got a plug instead of the service', {service: key});
         } else {
-            this.config.verbose && console.log(`[${key}] Ready`);
+            this.log.info('Ready', {service: key});
+        }
+        const durationMs = performance.now() - start.startedAt;
+        this.emit('serviceReady', {...start.info, durationMs});
+        this.watchExit(key, container);
+        this.itemTiming(key, 'service', container.level).startMs = durationMs;
+    }
+
+    private createContext(key: string, services: ServiceMap = this.services, signal = this.startAbort.signal): FrogeContext<ServiceMap> {
+        const generation = this.map.get(key)?.generation;
+        return {
+            services,
+            signal,
+            envs: envHelper,
+            log: createServiceLogger(this.log, key),
+            plug: <T>() => plug<T>(key),
+            collection: <T>() => collection<T>(),
+            fail: error => this.serviceCrashed(key, generation, {error: error ?? new Error(`Service ${key} failed`)}),
+        };
+    }
+
+    private watchExit(key: string, container: ServiceContainer<any>) {
+        if (!container.exited) {
+            return;
+        }
+        const generation = container.generation;
+        container.exited(container.value).then(
+            () => this.serviceCrashed(key, generation, {}),
+            error => this.serviceCrashed(key, generation, {error}),
+        );
+    }
+
+    /**
+     * Supervisor: restart crashed service (with dependents) according to its restart policy,
+     * disable it if it's optional, or shut down the server if the policy is exhausted.
+     */
+    private serviceCrashed(key: string, generation: number | undefined, crash: {error?: unknown}) {
+        const container = this.map.get(key);
+        // Ignore crashes of stopped or already replaced instances
+        if (container?.state !== 'up' || container.stopping || container.generation !== generation || container.crashed === generation || this.phase === 'stopping') {
+            return;
         }
+        const failed = 'error' in crash;
+        const policy = container.policy ?? {};
+        const mode = policy.restart ?? 'never';
+        const now = performance.now();
+        container.restarts = (container.restarts ?? []).filter(time => now - time < (policy.restartWindowMs ?? 60000));
+        const restart = (mode === 'always' || (mode === 'on-failure' && failed)) && container.restarts.length < (policy.maxRestarts ?? 5);
+        const action = restart ? 'restart' : container.optional ? 'disable' : 'shutdown';
+        this.log.error(failed ? 'Service crashed:' : 'Service exited:', {service: key, error: crash.error, action});
+        this.emit('serviceCrashed', {...this.eventInfo(key, container), ...crash, action});
+        container.crashed = generation;
+        // aborted by stop(), so a restart waiting for backoff is dropped
+        const signal = this.startAbort.signal;
+        (async () => {
+            if (action === 'restart') {
+                container.restarts!.push(now);
+                await sleep(backoffDelay(policy, container.restarts!.length), signal);
+                if (this.phase !== 'started') {
+                    return;
+                }
+                await this.restartInternal(key);
+            } else if (action === 'disable') {
+                await this.restartInternal(key, {error: crash.error ?? new Error(`Service ${key} exited`)});
+            } else {
+                await this.rootServer().shutdown(`service ${key} crashed`);
+            }
+        })().catch(error => {
+            if (signal.aborted) {
+                this.log.debug('Recovery of crashed service cancelled by stop', {service: key});
+                return;
+            }
+            this.log.error('Failed to recover crashed service, shutting down:', {service: key, error});
+            return this.rootServer().shutdown(`service ${key} failed to recover`);
+        });
+    }
+
+    /** Server which was launched, plugin servers are stopped by it */
+    private rootServer(): FrogeServer<any,any> {
+        return this.parentServer?.rootServer() ?? this;
+    }
+
+    private itemTiming(name: string, kind: ItemTiming['kind'], level: number): ItemTiming {
+        let timing = this.timing.items.get(name);
+        if (!timing) {
+            timing = {name, kind, level};
+            this.timing.items.set(name, timing);
+        }
+        return timing;
+    }
+
+    private eventInfo(key: string, container: ServiceContainer<any>): ServiceEventInfo {
+        return {key, group: container.group, level: container.level};
     }
 
-    private async stopService(key: keyof ServiceMap & string, container: ServiceContainer<any>) {
-        if (typeof container.destroy === 'undefined' || typeof container.value === 'undefined') {
+    private async initService(key: keyof ServiceMap & string, container: ServiceContainer<any>) {
+        const policy = container.policy ?? {};
+        const attempts = Math.max(policy.attempts ?? 1, 1);
+        for (let attempt = 1; ; attempt++) {
+            this.startAbort.signal.throwIfAborted();
+            const attemptAbort = new AbortController();
+            let pending: Promise<unknown> | undefined;
+            try {
+                const value = container.init(this.createContext(key, this.services, AbortSignal.any([this.startAbort.signal, attemptAbort.signal])));
+                if (value instanceof Promise) {
+                    pending = value;
+                    return await withTimeout(value, policy.startTimeoutMs, `Init timed out after ${policy.startTimeoutMs}ms`);
+                }
+                return value;
+            } catch (e: any) {
+                if (pending) {
+                    this.destroyAbandoned(key, container, pending);
+                }
+                attemptAbort.abort(e);
+                // Whatever init has thrown, it's because the server is stopping
+                this.startAbort.signal.throwIfAborted();
+                if (!container.policy) {
+                    throw e;
+                }
+                if (attempt >= attempts || policy.retryable?.(e, attempt) === false) {
+                    const attemptsText = attempt === 1 ? '1 attempt' : `${attempt} attempts`;
+                    throw new Error(`Service ${key} failed to start after ${attemptsText}: ${e?.message ?? e}`, {cause: e});
+                }
+                const delay = backoffDelay(policy, attempt);
+                this.log.warn(`Attempt ${attempt}/${attempts} failed, retrying in ${delay}ms:`, {service: key, error: e?.message ?? e});
+                await sleep(delay, this.startAbort.signal);
+            }
+        }
+    }
+
+    /** Init which has timed out may still complete later, nobody will use the result, so it's destroyed */
+    private destroyAbandoned(key: string, container: ServiceContainer<any>, pending: Promise<unknown>) {
+        pending.then(value => {
+            const destroy = container.destroy ? () => container.destroy!(value) : disposerOf(value);
+            if (typeof value === 'undefined' || !destroy) {
+                return;
+            }
+            this.log.warn('Timed out init has completed, destroying the result', {service: key});
+            return Promise.resolve().then(destroy).catch(error => {
+                this.log.error('Failed to destroy the result of timed out init:', {service: key, error});
+            });
+        }, () => {});
+    }
+
+    private async stopService(key: keyof ServiceMap & string, container: ServiceContainer<any>, keepPlug = false) {
+        // stop() and rollback of the cancelled start may destroy the same service concurrently
+        if (container.stopping) {
+            return container.stopping;
+        }
+        // services which failed to stop are destroyed again
+        if (container.state !== 'up' && !(container.state === 'failed' && container.lastError?.stage === 'stop')) {
             return;
         }
-        this.config.verbose && console.log(`[${key}] Destroying...`);
-        await container.destroy(container.value);
+        // services without destroyer (or without value) are only marked as down
+        const destroy = container.mocked || typeof container.value === 'undefined'
+            ? undefined
+            : container.destroy ? () => container.destroy!(container.value) : disposerOf(container.value);
+        container.stopping = this.destroyService(key, container, destroy, keepPlug).finally(() => container.stopping = undefined);
+        return container.stopping;
+    }
+
+    private async destroyService(key: string, container: ServiceContainer<any>, destroy: (() => unknown) | undefined, keepPlug: boolean) {
+        this.log.info('Destroying...', {service: key});
+        const info = this.eventInfo(key, container);
+        const startedAt = performance.now();
+        this.setState(container, 'stopping');
+        this.emit('serviceStopping', info);
+        try {
+            const timeoutMs = container.policy?.stopTimeoutMs;
+            if (destroy) {
+                await withTimeout(Promise.resolve().then(destroy), timeoutMs, `Destroy timed out after ${timeoutMs}ms`);
+            }
+        } catch (error) {
+            this.setState(container, 'failed', {error, stage: 'stop'});
+            this.emit('serviceFailed', {...info, durationMs: performance.now() - startedAt, error, stage: 'stop'});
+            throw error;
+        }
         container.value = undefined;
-        if (container.plug) {
+        // on restart plug keeps the old service until the new one is ready
+        if (container.plug && !keepPlug) {
             (container.plug as any).__startedService = undefined;
         }
-        container.up = false;
-        this.config.verbose && console.log(`[${key}] Destroyed`);
+        this.setState(container, 'down');
+        this.log.info('Destroyed', {service: key});
+        const durationMs = performance.now() - startedAt;
+        this.emit('serviceStopped', {...info, durationMs});
+        this.itemTiming(key, 'service', container.level).stopMs = durationMs;
+    }
+
+    /**
+     * Services wait for services they depend on, or for all services and plugins from previous groups.
+     * Plugins wait for services from their own and previous groups, and for previously added plugins.
+     */
+    private buildGraph(): StartNode[] {
+        const services: StartNode[] = Array.from(this.map.entries())
+            // plugin services are started by plugins, scoped services are created by scopes
+            .filter(([, container]) => container.serverSymbol === this.symbol && !container.lifetime)
+            .map(([key, container]) => ({name: key, level: container.level, deps: [], item: {kind: 'service', key, container}}));
+        const plugins: StartNode[] = Array.from(this.plugins.entries()).flatMap(([level, containers]) => containers.map((plugin, index) => ({
+            name: plugin.server ?? plugin.instance ? FrogeServer.pluginName((plugin.server ?? plugin.instance)!, plugin.prefix) : plugin.name ?? `plugin #${index + 1} after group ${level}`,
+            level,
+            deps: [],
+            item: {kind: 'plugin', plugin},
+        } as StartNode)));
+        const byKey = new Map(services.map(node => [node.name, node]));
+        for (const node of services) {
+            const item = node.item as {container: ServiceContainer<any>};
+            const levelPlugins = plugins.filter(plugin => plugin.level < node.level);
+            if (!item.container.dependsOn) {
+                node.deps = [
+                    // eager services don't wait for lazy ones, unless declared explicitly
+                    ...services.filter(other => other.level < node.level
+                        && (item.container.lazy || !FrogeServer.isLazy(other) || Object.hasOwn(item.container.contributes ?? {}, other.name))),
+                    ...levelPlugins,
+                ];
+                continue;
+            }
+            node.deps = [...levelPlugins];
+            // collection owners start before contributors
+            for (const dep of new Set([...item.container.dependsOn, ...Object.keys(item.container.contributes ?? {})])) {
+                const depNode = byKey.get(dep);
+                if (depNode) {
+                    node.deps.push(depNode);
+                } else if (this.map.get(dep)?.lifetime) {
+                    throw new Error(`Service ${node.name} can't depend on ${this.map.get(dep)!.lifetime} service ${dep}`);
+                } else if (!this.map.has(dep) && levelPlugins.length === 0) {
+                    throw new Error(`Service ${node.name} depends on unknown service ${dep}`);
+                }
+            }
+        }
+        for (const node of plugins) {
+            node.deps = [
+                ...services.filter(other => other.level <= node.level && !FrogeServer.isLazy(other)),
+                // plugins are started one by one
+                ...plugins.slice(0, plugins.indexOf(node)),
+            ];
+        }
+        // Natural order: plugins go after services of the same group
+        return [...services, ...plugins].toSorted((a, b) => a.level - b.level || (a.item.kind === 'plugin' ? 1 : 0) - (b.item.kind === 'plugin' ? 1 : 0));
+    }
+
+    private static isLazy(node: StartNode) {
+        return node.item.kind === 'service' && node.item.container.lazy === true;
+    }
+
+    private static isStarted(node: StartNode) {
+        return node.item.kind === 'service' ? node.item.container.state === 'up' : typeof node.item.plugin.server !== 'undefined';
     }
 
     private async startInternal(target?: keyof ServiceMap & string) {
-        const targetLevel: number|undefined = target && this.map.get(target)?.level;
-        const startGroups = Map.groupBy(
-            this.map.entries().filter(([key, info]) => key === target || typeof targetLevel === 'undefined' || info.level < targetLevel),
-            ([, info]) => info.level,
-        );
-        await this.startPlugins(-1);
-        for (const [level, group] of startGroups.entries()) {
+        if (this.startAbort.signal.aborted && this.phase !== 'stopping') {
+            this.startAbort = new AbortController();
+        }
+        const nodes = topologicalOrder(this.buildGraph());
+        const closure = dependencyClosure(target
+            ? nodes.filter(node => node.name === target && node.item.kind === 'service')
+            // lazy services are only started if eager ones depend on them
+            : nodes.filter(node => !FrogeServer.isLazy(node)));
+        await this.startNodes(nodes.filter(node => closure.has(node)));
+    }
+
+    private async startNodes(nodes: StartNode[]) {
+        const run = this.runStart(nodes);
+        this.pendingStarts.add(run);
+        try {
+            await run;
+        } finally {
+            this.pendingStarts.delete(run);
+        }
+    }
+
+    /** Start nodes in topological order, rolling back started ones on failure */
+    private async runStart(nodes: StartNode[]) {
+        const tracker: StartTracker = [];
+        const levelSpans = new Map<number, {begin: number, end: number}>();
+        const startNode = async (node: StartNode) => {
+            this.startAbort.signal.throwIfAborted();
+            const begin = performance.now();
+            if (node.item.kind === 'service') {
+                await this.startService(node.item.key, node.item.container, tracker);
+            } else {
+                await this.startPlugin(node.item.plugin, node.level, tracker);
+            }
+            const timing = this.timing.items.get(node.item.kind === 'service' ? node.item.key : FrogeServer.pluginName(node.item.plugin.server!, node.item.plugin.prefix));
+            if (timing) {
+                timing.dependsOn = node.deps.map(dep => dep.item.kind === 'plugin' && dep.item.plugin.server ? FrogeServer.pluginName(dep.item.plugin.server, dep.item.plugin.prefix) : dep.name);
+            }
+            const span = levelSpans.get(node.level);
+            levelSpans.set(node.level, {begin: Math.min(span?.begin ?? begin, begin), end: performance.now()});
+        };
+        try {
             if (this.config.parallelStartGroups) {
-                await Promise.all(group.map(entry => this.startService(...entry)));
+                // dependencies which aren't started here (e.g. disabled services) are left as they are
+                const included = new Set(nodes);
+                await runGraph(nodes, node => node.deps.filter(dep => included.has(dep)), startNode);
             } else {
-                for (const entry of group) {
-                    await this.startService(...entry);
+                for (const node of nodes) {
+                    await startNode(node);
                 }
             }
-            if (level !== targetLevel) {
-                await this.startPlugins(level);
+        } catch (e: any) {
+            await this.rollback(tracker, e);
+        } finally {
+            for (const [level, span] of levelSpans) {
+                this.timing.levels.set(level, span.end - span.begin);
             }
         }
     }
 
+    private async rollback(tracker: StartTracker, reason: any): Promise<never> {
+        if (tracker.length > 0) {
+            this.log.info(`Start failed, rolling back ${tracker.length} started item(s)...`);
+        }
+        const failures: {name: string, error: any}[] = [];
+        for (const item of tracker.toReversed()) {
+            try {
+                await item.rollback();
+            } catch (error) {
+                failures.push({name: item.name, error});
+            }
+        }
+        if (failures.length > 0) {
+            throw new AggregateError(
+                [reason, ...failures.map(f => f.error)],
+                `${reason?.message ?? reason}; rollback also failed for: ${failures.map(f => `${f.name} (${f.error?.message ?? f.error})`).join(', ')}`,
+                {cause: reason},
+            );
+        }
+        throw reason;
+    }
+
     public async only<K extends keyof ServiceMap & string>(key: K): Promise<ServiceMap[K]> {
         const info = this.map.get(key);
         if (!info) {
             throw new Error(`Service ${key} doesn't exist or is from a plugin`);
         }
-        if (!info.up) {
-            this.config.verbose && console.log(`Starting only service '${String(key)}' and dependencies...`);
+        if (info.state !== 'up') {
+            this.log.info(`Starting only service '${String(key)}' and dependencies...`);
             await this.startInternal(key);
         }
         return this.services[key];
     }
 
+    /**
+     * Stop service and all started services and plugins which depend on it, then start them again.
+     * Services which don't depend on it are left untouched.
+     */
+    public async restart<K extends keyof ServiceMap & string>(key: K): Promise<ServiceMap[K]> {
+        if (this.phase !== 'started') {
+            throw new Error(`Trying to restart service ${key} while server is ${this.phase}`);
+        }
+        const container = this.map.get(key);
+        if (!container || container.serverSymbol !== this.symbol) {
+            throw new Error(`Service ${key} doesn't exist or is from a plugin`);
+        }
+        await this.restartInternal(key);
+        return this.services[key];
+    }
+
+    /**
+     * Returns keys of restarted services.
+     * Crashed optional service is disabled instead, and only its dependents are restarted, so they see it as undefined.
+     */
+    private async restartInternal(key: string, disabled?: {error: unknown}): Promise<string[]> {
+        const nodes = topologicalOrder(this.buildGraph());
+        const target = nodes.find(node => node.name === key && node.item.kind === 'service')!;
+        const affected = nodes.filter(node => node === target || (FrogeServer.isStarted(node) && dependencyClosure(node.deps).has(target)));
+        this.log.info(disabled
+            ? `Disabling service '${key}' and restarting ${affected.length - 1} dependent(s)...`
+            : `Restarting service '${key}' and ${affected.length - 1} dependent(s)...`);
+        await this.stopNodes(affected, true);
+        for (const node of affected) {
+            if (node.item.kind === 'service') {
+                // Failed services are not stopped, but must be initialized again as well
+                node.item.container.value = undefined;
+                this.setState(node.item.container, 'down');
+            }
+        }
+        const restarted = disabled ? affected.filter(node => node !== target) : affected;
+        if (disabled && target.item.kind === 'service') {
+            const container = target.item.container;
+            if (container.plug) {
+                (container.plug as any).__startedService = undefined;
+            }
+            this.setState(container, 'failed', {...disabled, stage: 'crash'});
+        }
+        try {
+            await this.startNodes(restarted);
+        } catch (e) {
+            for (const node of restarted) {
+                if (node.item.kind === 'service' && node.item.container.plug && node.item.container.state !== 'up') {
+                    (node.item.container.plug as any).__startedService = undefined;
+                }
+            }
+            throw e;
+        }
+        return restarted.filter(node => node.item.kind === 'service').map(node => node.name);
+    }
+
+    /** Create a container for scoped and transient services, dispose it (or use "await using") to destroy them */
+    public createScope(): FrogeScope<ServiceMap> {
+        return new FrogeScope<ServiceMap>(
+            key => {
+                const container = this.map.get(key);
+                return container?.lifetime ? container as ScopedFactory : undefined;
+            },
+            this.services,
+            (key, services) => this.createContext(key, services),
+        );
+    }
+
     public async start() {
-        this.config.verbose && console.log('Starting...');
-        await this.startInternal();
+        this.log.info('Starting...');
+        const startedAt = performance.now();
+        this.phase = 'starting';
+        this.emit('starting');
+        this.timing = {startMs: undefined, stopMs: undefined, items: new Map(), levels: new Map()};
+        try {
+            this.checkPluginRequirements();
+            await this.startInternal();
+            // stop() has begun after the last service was started
+            this.startAbort.signal.throwIfAborted();
+        } catch (e) {
+            // unless stop() is in progress, it will set the phase itself
+            if (this.phase === 'starting') {
+                this.phase = 'stopped';
+            }
+            throw e;
+        }
+        this.phase = 'started';
+        this.timing.startMs = performance.now() - startedAt;
+        this.emit('started', {durationMs: this.timing.startMs});
+        if (this.config.verbose && isLevelEnabled('info', this.config.logLevel)) {
+            this.log.info(formatTimings(this.timings()));
+        }
         return this;
     }
 
     public async stop(reasonText?: string) {
-        this.config.verbose && console.log(`Stopping (${reasonText ?? 'unspecified reason'})...`);
-        const stopGroups = Map.groupBy(
-            Array.from(this.map.entries())
-                // only stop my services
-                .filter(([, c]) => c.serverSymbol === this.symbol)
-                // in reverse order
-                .reverse(),
-            ([, info]) => info.level,
-        );
-        for (const [level, group] of stopGroups.entries()) {
-            await this.stopPlugins(level);
-            if (this.config.parallelStopGroups) {
-                await Promise.all(group.map(entry => this.stopService(...entry)));
-            } else {
-                for (const entry of group) {
-                    await this.stopService(...entry);
+        this.log.info(`Stopping (${reasonText ?? 'unspecified reason'})...`);
+        const startedAt = performance.now();
+        this.phase = 'stopping';
+        this.startAbort.abort(new Error(`Start cancelled, server is stopping (${reasonText ?? 'unspecified reason'})`));
+        this.emit('stopping', {reason: reasonText});
+        // inits may ignore the signal, started services are rolled back once they are done
+        await Promise.allSettled(this.pendingStarts);
+        try {
+            await this.stopInternal();
+        } catch (error) {
+            this.removeProcessListeners();
+            this.phase = 'stopped';
+            this.emit('stopped', {durationMs: performance.now() - startedAt, error});
+            throw error;
+        }
+        this.removeProcessListeners();
+        this.phase = 'stopped';
+        this.timing.stopMs = performance.now() - startedAt;
+        this.emit('stopped', {durationMs: this.timing.stopMs});
+    }
+
+    /** Allows "await using server = ...", e.g. in scripts using only() */
+    public async [Symbol.asyncDispose]() {
+        await this.stop('disposed');
+    }
+
+    private async stopInternal() {
+        // Graph is built from current state, so started plugins have their services listed
+        await this.stopNodes(topologicalOrder(this.buildGraph()));
+    }
+
+    /** Stop nodes in reverse topological order, dependents first. Failures don't prevent stopping other nodes */
+    private async stopNodes(nodes: StartNode[], keepPlugs = false) {
+        const dependents = new Map<StartNode, StartNode[]>(nodes.map(node => [node, nodes.filter(other => other.deps.includes(node))]));
+        const failures: {name: string, error: any}[] = [];
+        const stopNode = async (node: StartNode) => {
+            try {
+                if (node.item.kind === 'service') {
+                    await this.stopService(node.item.key, node.item.container, keepPlugs);
+                } else {
+                    await this.stopPlugin(node.item.plugin);
                 }
+            } catch (error) {
+                this.log.error('Failed to stop:', {service: node.name, error});
+                failures.push({name: node.name, error});
+            }
+        };
+        if (this.config.parallelStopGroups) {
+            await runGraph(nodes.toReversed(), node => dependents.get(node) ?? [], stopNode);
+        } else {
+            for (const node of nodes.toReversed()) {
+                await stopNode(node);
             }
         }
-        await this.stopPlugins(-1);
+        if (failures.length > 0) {
+            throw new AggregateError(
+                failures.map(f => f.error),
+                `Failed to stop: ${failures.map(f => `${f.name} (${f.error?.message ?? f.error})`).join(', ')}`,
+            );
+        }
+    }
+
+    /** Describe all services and plugins, see graphToMermaid() and graphToDot() to render it */
+    public graph(): ServiceGraph {
+        const nodes = this.buildGraph();
+        const names = (node: StartNode): string[] => {
+            if (node.item.kind === 'service') {
+                return [node.item.key];
+            }
+            const {server = node.item.plugin.instance, prefix} = node.item.plugin;
+            return server ? server.graph().services.map(service => FrogeServer.mountedKey(service.key, prefix)) : [node.name];
+        };
+        const graph: ServiceGraph = {services: [], plugins: []};
+        for (const node of nodes) {
+            const dependsOn = node.deps.flatMap(names);
+            if (node.item.kind === 'service') {
+                const container = node.item.container;
+                graph.services.push({
+                    key: node.item.key,
+                    group: container.group,
+                    level: container.level,
+                    plug: typeof container.plug !== 'undefined',
+                    lazy: container.lazy === true,
+                    // disposable values are only known once started
+                    destroyer: typeof container.destroy !== 'undefined' || typeof disposerOf(container.value) !== 'undefined',
+                    dependsOn,
+                });
+                continue;
+            }
+            const {server = node.item.plugin.instance, prefix} = node.item.plugin;
+            const services: GraphService[] = server ? server.graph().services.map(service => ({
+                ...service,
+                key: FrogeServer.mountedKey(service.key, prefix),
+                level: node.level,
+                plugin: node.name,
+                dependsOn: [...dependsOn, ...service.dependsOn.map(key => FrogeServer.mountedKey(key, prefix))],
+            })) : [];
+            graph.plugins.push({
+                name: node.name,
+                level: node.level,
+                resolved: typeof server !== 'undefined',
+                services: services.map(service => service.key),
+                dependsOn,
+            });
+            graph.services.push(...services);
+        }
+        return graph;
+    }
+
+    /** Start and stop durations of services, plugins and levels since the last start() */
+    public timings(): TimingReport {
+        const items = Array.from(this.timing.items.values()).toSorted((a, b) => a.level - b.level);
+        return {
+            startMs: this.timing.startMs,
+            stopMs: this.timing.stopMs,
+            items,
+            levels: Array.from(this.timing.levels.entries())
+                .map(([level, startMs]) => ({level, startMs}))
+                .toSorted((a, b) => a.level - b.level),
+            criticalPath: criticalPath(items, this.config.parallelStartGroups),
+        };
+    }
+
+    /** True when the server has started and is not stopping */
+    public get isRunning() {
+        return this.phase === 'started';
+    }
+
+    /** Lifecycle phase of the server and state of all known services, including started plugins */
+    public status(): ServerStatus<ServiceMap> {
+        return {
+            phase: this.phase,
+            services: Object.fromEntries(
+                this.map.entries().map(([key, container]) => [key, {
+                    state: container.state,
+                    since: container.since,
+                    startedAt: container.startedAt,
+                    stoppedAt: container.stoppedAt,
+                    error: container.lastError && FrogeServer.errorMessage(container.lastError.error),
+                    group: container.group,
+                    level: container.level,
+                    plugin: this.pluginOf(container),
+                }]),
+            ) as ServerStatus<ServiceMap>['services'],
+        };
     }
 
     public async launch() {
         if (!this.config.gracefulShutdownTimeoutMs) {
-            console.info('gracefulShutdownTimeoutMs config option not set, fallback to 60 sec');
+            this.log.warn('gracefulShutdownTimeoutMs config option not set, fallback to 60 sec');
             this.config.gracefulShutdownTimeoutMs = 60000;
         }
+        // Listening before start, so a signal can cancel it
+        for (const signal of this.config.shutdownSignals) {
+            this.listenProcess(signal, () => {
+                if (this.phase !== 'stopping') {
+                    this.shutdown(signal);
+                    return;
+                }
+                this.log.error(`Received ${signal} during shutdown, forcing exit`);
+                process.exit(128 + (constants.signals[signal] ?? 0));
+            });
+        }
+        this.listenProcess('SIGHUP', () => this.reload());
+        if (this.config.shutdownOnCrash) {
+            for (const event of ['uncaughtException', 'unhandledRejection']) {
+                this.listenProcess(event, async (error: unknown) => {
+                    this.log.error(`Got ${event}, shutting down:`, {error});
+                    process.exitCode = 1;
+                    await this.shutdown(error instanceof Error ? error : String(error));
+                    process.exit();
+                });
+            }
+        }
         try {
             await this.start();
-            process.once('SIGINT', () => this.shutdown('SIGINT'));
-            process.once('SIGTERM', () => this.shutdown('SIGTERM'));
         } catch (e) {
-            console.error('Failed to start: ', e);
-            await this.shutdown('failed start cleanup');
+            // Otherwise start was cancelled by shutdown, which is already in progress
+            if (!this.startAbort.signal.aborted) {
+                this.log.error('Failed to start: ', {error: e});
+                await this.shutdown('failed start cleanup');
+            }
         }
         return this;
     }
 
-    public async shutdown(reasonText?: string) {
+    private listenProcess(event: string, listener: (...args: any[]) => void) {
+        process.on(event, listener);
+        this.processListeners.push([event, listener]);
+    }
+
+    private removeProcessListeners() {
+        for (const [event, listener] of this.processListeners) {
+            process.off(event, listener);
+        }
+        this.processListeners = [];
+    }
+
+    public async shutdown(reason?: string | Error) {
+        const reasonText = reason instanceof Error ? `${reason.name}: ${reason.message}` : reason;
         const timeoutInfo = this.config.gracefulShutdownTimeoutMs ? `timeout: ${this.config.gracefulShutdownTimeoutMs}ms` : 'no timeout';
         if (this.config.gracefulShutdownTimeoutMs) {
             setTimeout(() => {
-                console.error(`Reached shutdown timeout ${this.config.gracefulShutdownTimeoutMs}ms, killing...`);
+                this.emit('shutdownTimeout', {timeoutMs: this.config.gracefulShutdownTimeoutMs!});
+                this.log.error(`Reached shutdown timeout ${this.config.gracefulShutdownTimeoutMs}ms, killing...`);
                 process.exit(1);
             }, this.config.gracefulShutdownTimeoutMs).unref();
         }
         try {
             await this.stop((reasonText ?? 'shutdown') + ', ' + timeoutInfo);
             if (this.config.forceExitAfterShutdown) {
-                process.exit(0);
+                // exit code may be set by crash handler
+                process.exit();
             }
         } catch (e) {
-            console.error('Shutdown incomplete, killing... Reason:', e);
+            this.log.error('Shutdown incomplete, killing... Reason:', {error: e});
             process.exit(1);
         }
     }
@@ -368,6 +1599,18 @@ export type { FrogeServer };
 export { envHelper as envs };
 
 export type { Plug } from './plug';
+export type { ServicePolicy } from './policy';
+export type { FrogeScope, ServiceLifetime } from './scope';
+export type { Collection, CollectionListener } from './collection';
+export { definePlugin } from './plugin';
+export type { PluginDefinition, PluginRequirements } from './plugin';
+export { consoleLogger, jsonLogger } from './logger';
+export type { FrogeLogger, LogFields, LogLevel, ServiceLogger } from './logger';
+export type { ItemTiming, LevelTiming, TimingReport } from './timings';
+export { graphToDot, graphToMermaid } from './graph';
+export type { GraphPlugin, GraphService, ServiceGraph } from './graph';
+export type { FrogeEvents, ServiceEventInfo } from './events';
+export type { HealthCheck, HealthCheckOptions, HealthReport, HealthStatus, ServiceHealth } from './health';
 
 export type InferContext<S extends FrogeServer<any, any>, K> = S extends FrogeServer<any, infer G> ? K extends keyof G ? FrogeContext<G[K]> : never : never;
 
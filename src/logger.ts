@@ -0,0 +1,78 @@
+import { format } from 'node:util';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface FrogeLogger {
+    debug: (message: string, fields?: LogFields) => void,
+    info: (message: string, fields?: LogFields) => void,
+    warn: (message: string, fields?: LogFields) => void,
+    error: (message: string, fields?: LogFields) => void,
+}
+
+/** Logger available to services as ctx.log, attaches service key to every message */
+export interface ServiceLogger extends FrogeLogger {
+    /** Log info message, items are formatted like in console.log() */
+    (...items: any): void,
+}
+
+const levels: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export function isLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+    return levels.indexOf(level) >= levels.indexOf(minLevel);
+}
+
+function consoleArgs(message: string, fields: LogFields = {}) {
+    const { service, error, ...rest } = fields;
+    const args: any[] = [service ? `[${service}] ${message}` : message];
+    if (Object.keys(rest).length > 0) {
+        args.push(rest);
+    }
+    if (typeof error !== 'undefined') {
+        args.push(error);
+    }
+    return args;
+}
+
+/** Human-readable logger, prints "[service] message" to console */
+export const consoleLogger: FrogeLogger = {
+    debug: (message, fields) => console.debug(...consoleArgs(message, fields)),
+    info: (message, fields) => console.log(...consoleArgs(message, fields)),
+    warn: (message, fields) => console.warn(...consoleArgs(message, fields)),
+    error: (message, fields) => console.error(...consoleArgs(message, fields)),
+};
+
+function serializeError(error: unknown) {
+    if (error instanceof Error) {
+        return { name: error.name, message: error.message, stack: error.stack };
+    }
+    return error;
+}
+
+/** Logger writing one JSON object per line, suitable for log collectors */
+export function jsonLogger(stream: { write: (line: string) => unknown } = process.stdout): FrogeLogger {
+    const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+        const { error, ...rest } = fields;
+        stream.write(JSON.stringify({
+            time: new Date().toISOString(),
+            level,
+            message,
+            ...rest,
+            ...(typeof error !== 'undefined' ? { error: serializeError(error) } : {}),
+        }) + '\n');
+    };
+    return {
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error'),
+    };
+}
+
+export function createServiceLogger(logger: FrogeLogger, service: string): ServiceLogger {
+    const log = ((...items: any) => logger.info(format(...items), { service })) as ServiceLogger;
+    for (const level of levels) {
+        log[level] = (message, fields) => logger[level](message, { ...fields, service });
+    }
+    return log;
+}
@@ -0,0 +1,32 @@
+import type { FrogeServer, PluginContext } from './index';
+
+// note: update in README as well
+export interface PluginRequirements<ServiceMapIn extends {}> {
+    /** Parent services which must be registered before the plugin is used */
+    services?: (keyof ServiceMapIn & string)[],
+    /** Env vars which must be set */
+    envs?: string[],
+}
+
+export interface PluginDefinition<ServiceMapIn extends Record<string,any>, ServiceMapOut extends {}> {
+    /** Used in error messages (default: plugin position) */
+    name?: string,
+    requires: PluginRequirements<ServiceMapIn>,
+    create: (ctx: PluginContext<ServiceMapIn>) => FrogeServer<ServiceMapOut, any> | Promise<FrogeServer<ServiceMapOut, any>>,
+}
+
+/**
+ * Plugin which declares parent services it depends on, their types come from the context of create():
+ *
+ *     definePlugin({
+ *         requires: {services: ['db'], envs: ['REDIS_URL']},
+ *         create: (ctx: PluginContext<{db: Pool}>) => froge().up({ ... }),
+ *     })
+ *
+ * use() doesn't accept it unless required services are there, and start() checks requirements before starting anything.
+ */
+export function definePlugin<ServiceMapIn extends Record<string,any>, ServiceMapOut extends {}>(
+    definition: PluginDefinition<ServiceMapIn, ServiceMapOut>,
+) {
+    return definition;
+}
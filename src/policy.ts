@@ -0,0 +1,64 @@
+// note: update in README as well
+export interface ServicePolicy {
+    /** Fail an init attempt if it didn't complete in time */
+    startTimeoutMs?: number,
+    /** Max number of init attempts, including the first one (default: 1) */
+    attempts?: number,
+    /** Delay before the second attempt (default: 100) */
+    backoffMs?: number,
+    /** Multiplier applied to the delay after every failed attempt (default: 2) */
+    backoffFactor?: number,
+    /** Upper limit for the delay between attempts (default: 30000) */
+    maxBackoffMs?: number,
+    /** Randomize each delay by up to this fraction of it, 0..1 (default: 0.2) */
+    jitter?: number,
+    /** Return false to give up without retrying (all errors are retried by default) */
+    retryable?: (error: unknown, attempt: number) => boolean,
+    /** Fail destroy if it didn't complete in time, so stop() can proceed with other services */
+    stopTimeoutMs?: number,
+    /** Restart the service if it crashed after start, otherwise the server is shut down (default: 'never') */
+    restart?: 'never' | 'always' | 'on-failure',
+    /** Max number of restarts within restartWindowMs, then the server is shut down (default: 5) */
+    maxRestarts?: number,
+    /** Time window for maxRestarts (default: 60000) */
+    restartWindowMs?: number,
+}
+
+export function backoffDelay(policy: ServicePolicy, attempt: number): number {
+    const base = Math.min(
+        (policy.backoffMs ?? 100) * Math.pow(policy.backoffFactor ?? 2, attempt - 1),
+        policy.maxBackoffMs ?? 30000,
+    );
+    const jitter = Math.min(Math.max(policy.jitter ?? 0.2, 0), 1);
+    return Math.round(base * (1 - jitter + 2 * jitter * Math.random()));
+}
+
+export function withTimeout<T>(value: Promise<T>, timeoutMs: number|undefined, message: string): Promise<T> {
+    if (!timeoutMs) {
+        return value;
+    }
+    let timer: NodeJS.Timeout;
+    return Promise.race([
+        value,
+        new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+        }),
+    ]).finally(() => clearTimeout(timer));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+        return Promise.reject(signal.reason);
+    }
+    return new Promise((resolve, reject) => {
+        const abort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', abort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', abort, {once: true});
+    });
+}
@@ -0,0 +1,93 @@
+import http from 'node:http';
+import froge, { type PluginContext } from './index';
+
+// note: update in README as well
+export interface ProbesOptions {
+    /** Port to listen on (default: PROBES_PORT env var or 9000) */
+    port?: number,
+    /** Host to listen on (default: all interfaces) */
+    host?: string,
+    /** Liveness endpoint, responds 200 while the process is able to serve requests (default: /healthz) */
+    livenessPath?: string,
+    /** Readiness endpoint, responds 200 only after server is started and before it begins stopping (default: /readyz) */
+    readinessPath?: string,
+    /** Endpoint with JSON dump of server lifecycle phase and service states (default: /status) */
+    statusPath?: string,
+    /** Also run health checks: unhealthy server is not ready, and the report is included in status */
+    healthChecks?: boolean,
+}
+
+/**
+ * Plugin exposing liveness & readiness endpoints for orchestrators, like Kubernetes.
+ * Use it before other services to make endpoints available during startup:
+ *
+ *     froge().use(probes({ port: 9000 })).up({ ... })
+ */
+export function probes(options: ProbesOptions = {}) {
+    return (ctx: PluginContext<any>) => {
+        const parent = ctx.parent;
+        const paths = {
+            liveness: options.livenessPath ?? '/healthz',
+            readiness: options.readinessPath ?? '/readyz',
+            status: options.statusPath ?? '/status',
+        };
+
+        const isReady = async () => {
+            if (parent.status().phase !== 'started') {
+                return false;
+            }
+            return !options.healthChecks || (await parent.health()).status !== 'unhealthy';
+        };
+
+        const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+            const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+            const send = (code: number, body: any) => {
+                res.writeHead(code, {'Content-Type': 'application/json'}).end(JSON.stringify(body));
+            };
+            if (req.method !== 'GET' && req.method !== 'HEAD') {
+                return send(405, {error: 'Method not allowed'});
+            }
+            switch (path) {
+                case paths.liveness:
+                    return send(200, {status: 'ok'});
+                case paths.readiness: {
+                    const ready = await isReady();
+                    return send(ready ? 200 : 503, {status: ready ? 'ready' : 'not ready'});
+                }
+                case paths.status:
+                    return send(200, {
+                        ...parent.status(),
+                        health: options.healthChecks ? await parent.health() : undefined,
+                    });
+                default:
+                    return send(404, {error: 'Not found'});
+            }
+        };
+
+        return froge().up({
+            probeServer: async ctx => {
+                const server = http.createServer((req, res) => {
+                    handle(req, res).catch(e => {
+                        ctx.log.error('Request failed:', {error: e});
+                        res.headersSent ? res.end() : res.writeHead(500).end();
+                    });
+                });
+                const port = options.port ?? ctx.envs.PROBES_PORT.port(9000);
+                await new Promise<void>((resolve, reject) => {
+                    server.once('error', reject);
+                    server.listen(port, options.host, () => {
+                        server.off('error', reject);
+                        resolve();
+                    });
+                });
+                ctx.log(`Listening on port ${port}`);
+                return server;
+            },
+        }).down({
+            probeServer: server => new Promise<void>((resolve, reject) => {
+                server.close(e => e ? reject(e) : resolve());
+                server.closeAllConnections();
+            }),
+        });
+    };
+}
@@ -0,0 +1,105 @@
+export interface GraphNode<T> {
+    name: string,
+    level: number,
+    deps: GraphNode<T>[],
+    item: T,
+}
+
+function findCycle<T>(nodes: GraphNode<T>[]): GraphNode<T>[] {
+    const visited = new Set<GraphNode<T>>();
+    const stack: GraphNode<T>[] = [];
+    const visit = (node: GraphNode<T>): GraphNode<T>[]|undefined => {
+        const index = stack.indexOf(node);
+        if (index !== -1) {
+            return [...stack.slice(index), node];
+        }
+        if (visited.has(node)) {
+            return;
+        }
+        visited.add(node);
+        stack.push(node);
+        for (const dep of node.deps) {
+            const cycle = visit(dep);
+            if (cycle) {
+                return cycle;
+            }
+        }
+        stack.pop();
+    };
+    for (const node of nodes) {
+        const cycle = visit(node);
+        if (cycle) {
+            return cycle;
+        }
+    }
+    return [];
+}
+
+/**
+ * Order nodes so that dependencies come first.
+ * Independent nodes keep their original order, so level-based definitions are ordered by level.
+ */
+export function topologicalOrder<T>(nodes: GraphNode<T>[]): GraphNode<T>[] {
+    const remaining = new Set(nodes);
+    const order: GraphNode<T>[] = [];
+    while (remaining.size > 0) {
+        const next = remaining.values().find(node => node.deps.every(dep => !remaining.has(dep)));
+        if (!next) {
+            // Reads as "a depends on b, which depends on a"
+            const cycle = findCycle(Array.from(remaining));
+            throw new Error(`Dependency cycle detected: ${cycle.map(node => node.name).join(' -> ')}`);
+        }
+        remaining.delete(next);
+        order.push(next);
+    }
+    return order;
+}
+
+/** Nodes which must be started before targets, including targets themselves */
+export function dependencyClosure<T>(targets: GraphNode<T>[]): Set<GraphNode<T>> {
+    const closure = new Set<GraphNode<T>>();
+    const visit = (node: GraphNode<T>) => {
+        if (!closure.has(node)) {
+            closure.add(node);
+            node.deps.forEach(visit);
+        }
+    };
+    targets.forEach(visit);
+    return closure;
+}
+
+/**
+ * Run task for each node as soon as tasks of all nodes it waits for are completed.
+ * After the first failure no new tasks are started, running ones are awaited and the first error is thrown.
+ */
+export async function runGraph<T>(
+    nodes: GraphNode<T>[],
+    waitFor: (node: GraphNode<T>) => GraphNode<T>[],
+    task: (node: GraphNode<T>) => Promise<void>,
+): Promise<void> {
+    const running = new Map<GraphNode<T>, Promise<void>>();
+    let failure: {error: unknown}|undefined;
+    const run = (node: GraphNode<T>): Promise<void> => {
+        let promise = running.get(node);
+        if (!promise) {
+            promise = (async () => {
+                await Promise.all(waitFor(node).map(run));
+                if (failure) {
+                    throw failure.error;
+                }
+                try {
+                    await task(node);
+                } catch (error) {
+                    failure ??= {error};
+                    throw error;
+                }
+            })();
+            running.set(node, promise);
+        }
+        return promise;
+    };
+    await Promise.allSettled(nodes.map(run));
+    if (failure) {
+        throw failure.error;
+    }
+}
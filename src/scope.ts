@@ -0,0 +1,136 @@
+import { disposerOf } from './dispose';
+
+type MaybePromise<T> = T|Promise<T>;
+
+/**
+ * singleton - started with the server, shared by everyone (default)
+ * scoped - created on first access within a scope, shared within the scope
+ * transient - created on every access within a scope
+ */
+export type ServiceLifetime = 'singleton' | 'scoped' | 'transient';
+
+export interface ScopedFactory {
+    lifetime: Exclude<ServiceLifetime, 'singleton'>,
+    init: (ctx: any) => unknown,
+    destroy?: (service: any) => MaybePromise<void>,
+    dependsOn?: string[],
+}
+
+interface ScopedInstance {
+    key: string,
+    value: unknown,
+    destroy?: (service: any) => MaybePromise<void>,
+}
+
+/**
+ * Child container for scoped and transient services, e.g. per request.
+ * Singleton services are taken from the server.
+ */
+export class FrogeScope<ServiceMap extends {}> implements AsyncDisposable {
+    private cache = new Map<string, {value?: unknown, pending?: Promise<unknown>}>();
+    private pending = new Set<Promise<unknown>>();
+    /** In creation order, disposed in reverse */
+    private instances: ScopedInstance[] = [];
+    private disposed = false;
+
+    public constructor(
+        private factory: (key: string) => ScopedFactory | undefined,
+        private singletons: ServiceMap,
+        private createContext: (key: string, services: ServiceMap) => unknown,
+    ) {}
+
+    public readonly services: ServiceMap = new Proxy({}, {
+        get: (_, prop: string) => {
+            const factory = this.factory(prop);
+            if (!factory) {
+                return this.singletons[prop as keyof ServiceMap];
+            }
+            const cached = this.cache.get(prop);
+            if (cached && !cached.pending) {
+                return cached.value;
+            }
+            const value = cached?.pending ?? this.create(prop, factory);
+            if (value instanceof Promise) {
+                throw new Error(`Service "${prop}" is initialized asynchronously, use "await scope.get('${prop}')" to access it`);
+            }
+            return value;
+        },
+    }) as ServiceMap;
+
+    /** Get a service, waiting for async scoped services and their dependencies */
+    public async get<K extends keyof ServiceMap & string>(key: K): Promise<ServiceMap[K]> {
+        const factory = this.factory(key);
+        if (!factory) {
+            return this.singletons[key];
+        }
+        for (const dep of factory.dependsOn ?? []) {
+            await this.get(dep as K);
+        }
+        const cached = this.cache.get(key);
+        if (cached) {
+            return (cached.pending ?? cached.value) as ServiceMap[K];
+        }
+        return await this.create(key, factory) as ServiceMap[K];
+    }
+
+    private create(key: string, factory: ScopedFactory): unknown {
+        if (this.disposed) {
+            throw new Error(`Can't create service "${key}", scope is already disposed`);
+        }
+        const value = factory.init(this.createContext(key, this.services));
+        if (!(value instanceof Promise)) {
+            this.instances.push({key, value, destroy: factory.destroy});
+            if (factory.lifetime === 'scoped') {
+                this.cache.set(key, {value});
+            }
+            return value;
+        }
+        const pending = value.then(value => {
+            this.instances.push({key, value, destroy: factory.destroy});
+            if (factory.lifetime === 'scoped') {
+                this.cache.set(key, {value});
+            }
+            return value;
+        }, error => {
+            this.cache.delete(key);
+            throw error;
+        }).finally(() => this.pending.delete(pending));
+        // Error is delivered to whoever awaits the service, see get()
+        pending.catch(() => {});
+        this.pending.add(pending);
+        if (factory.lifetime === 'scoped') {
+            this.cache.set(key, {pending});
+        }
+        return pending;
+    }
+
+    /** Destroy created services in reverse order, all destroyers are called even if some fail */
+    public async dispose() {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        await Promise.allSettled(this.pending);
+        const failures: {key: string, error: any}[] = [];
+        for (const instance of this.instances.toReversed()) {
+            try {
+                const destroy = instance.destroy ? () => instance.destroy!(instance.value) : disposerOf(instance.value);
+                await destroy?.();
+            } catch (error) {
+                failures.push({key: instance.key, error});
+            }
+        }
+        this.instances = [];
+        this.cache.clear();
+        if (failures.length > 0) {
+            throw new AggregateError(
+                failures.map(f => f.error),
+                `Failed to dispose scoped services: ${failures.map(f => `${f.key} (${f.error?.message ?? f.error})`).join(', ')}`,
+            );
+        }
+    }
+
+    public async [Symbol.asyncDispose]() {
+        await this.dispose();
+    }
+}
@@ -0,0 +1,55 @@
+import { after, before } from 'node:test';
+import type { FrogeServer } from './index';
+
+type ServiceMapOf<S> = S extends FrogeServer<infer ServiceMap, any> ? ServiceMap : never;
+
+// note: update in README as well
+export interface TestServerOptions<ServiceMap extends {}> {
+    /** Fakes replacing real services, they don't depend on anything and aren't destroyed on stop */
+    mocks?: {
+        [K in keyof ServiceMap]?: ServiceMap[K]
+    },
+    /** Start only these services and their dependencies (default: all services) */
+    only?: (keyof ServiceMap & string)[],
+}
+
+/**
+ * Apply mocks and start the server, or only services needed by the test:
+ *
+ *     await startTestServer(server, { mocks: { db: fakeDb }, only: ['api'] });
+ *
+ * Mocks stay applied after stop, call server.unmock() if the server is used again.
+ */
+export async function startTestServer<S extends FrogeServer<any, any>>(server: S, options: TestServerOptions<ServiceMapOf<S>> = {}) {
+    if (options.mocks) {
+        server.mock(options.mocks);
+    }
+    if (!options.only) {
+        await server.start();
+        return server;
+    }
+    for (const key of options.only) {
+        await server.only(key);
+    }
+    return server;
+}
+
+/**
+ * Register node:test hooks in the current suite, which start the server before its tests and always stop it (and remove mocks) afterwards:
+ *
+ *     describe('api', () => {
+ *         const server = useTestServer(createServer(), { mocks: { db: fakeDb } });
+ *         it('works', () => { ... });
+ *     });
+ */
+export function useTestServer<S extends FrogeServer<any, any>>(server: S, options: TestServerOptions<ServiceMapOf<S>> = {}) {
+    before(() => startTestServer(server, options));
+    after(async () => {
+        try {
+            await server.stop('tests finished');
+        } finally {
+            server.unmock();
+        }
+    });
+    return server;
+}
@@ -0,0 +1,79 @@
+export interface ItemTiming {
+    /** Service key or plugin name */
+    name: string,
+    kind: 'service' | 'plugin',
+    level: number,
+    startMs?: number,
+    stopMs?: number,
+    /** Names of services and plugins which had to start first */
+    dependsOn?: string[],
+}
+
+export interface LevelTiming {
+    level: number,
+    /** Wall time from the first service or plugin of the level starting until the last one is ready */
+    startMs: number,
+}
+
+export interface TimingReport {
+    startMs?: number,
+    stopMs?: number,
+    items: ItemTiming[],
+    levels: LevelTiming[],
+    /** Chain of dependencies which took the longest to start, i.e. which determined total start time */
+    criticalPath: {
+        items: ItemTiming[],
+        durationMs: number,
+    },
+}
+
+export function criticalPath(items: ItemTiming[], parallel: boolean): TimingReport['criticalPath'] {
+    const started = items.filter(item => typeof item.startMs !== 'undefined');
+    if (!parallel) {
+        return {
+            items: started,
+            durationMs: started.reduce((total, item) => total + item.startMs!, 0),
+        };
+    }
+    const byName = new Map(started.map(item => [item.name, item]));
+    const longest = new Map<ItemTiming, {path: ItemTiming[], durationMs: number}>();
+    const visit = (item: ItemTiming): {path: ItemTiming[], durationMs: number} => {
+        let result = longest.get(item);
+        if (!result) {
+            const before = (item.dependsOn ?? [])
+                .map(name => byName.get(name))
+                .filter(dep => typeof dep !== 'undefined')
+                .map(visit)
+                .reduce((max, dep) => dep.durationMs > max.durationMs ? dep : max, {path: [], durationMs: 0});
+            result = {path: [...before.path, item], durationMs: before.durationMs + item.startMs!};
+            longest.set(item, result);
+        }
+        return result;
+    };
+    const result = started.map(visit).reduce((max, path) => path.durationMs > max.durationMs ? path : max, {path: [], durationMs: 0});
+    return {
+        items: result.path,
+        durationMs: result.durationMs,
+    };
+}
+
+const ms = (value?: number) => typeof value === 'undefined' ? '-' : `${value.toFixed(1)}ms`;
+
+export function formatTimings(report: TimingReport): string {
+    const rows = [
+        ['level', 'name', 'start', 'stop', ''],
+        ...report.items.map(item => [
+            String(item.level),
+            item.name,
+            ms(item.startMs),
+            ms(item.stopMs),
+            report.criticalPath.items.includes(item) ? '*' : '',
+        ]),
+    ];
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    const lines = rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+    return [
+        `Started in ${ms(report.startMs)}, critical path (*) ${ms(report.criticalPath.durationMs)}:`,
+        ...lines,
+    ].join('\n');
+}
@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+import { quietLogger } from './samples/quiet-logger';
+
+function waitForAbort(signal: AbortSignal) {
+    return new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason), { once: true }));
+}
+
+describe('Froge (cancellation)', () => {
+    it('ctx.signal: aborted by stop() during start', async () => {
+        const sequence: string[] = [];
+        let initStarted: () => void;
+        const initStartedPromise = new Promise<void>(resolve => initStarted = resolve);
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => { sequence.push('db'); return 'db'; },
+            broker: async ctx => {
+                initStarted();
+                await waitForAbort(ctx.signal);
+            },
+        }).up({
+            api: () => { sequence.push('api'); return 'api'; },
+        }).down({
+            db: () => { sequence.push('stop db'); },
+        });
+
+        const start = server.start();
+        await initStartedPromise;
+        const stop = server.stop('SIGTERM');
+
+        await assert.rejects(start, { message: 'Start cancelled, server is stopping (SIGTERM)' });
+        await stop;
+        assert.deepEqual(sequence, ['db', 'stop db']);
+        assert.equal(server.status().phase, 'stopped');
+    });
+
+    it('stop(): waits for init which ignores the signal', async () => {
+        const sequence: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            db: () => 'db',
+        }).up({
+            api: async () => {
+                await new Promise(resolve => setTimeout(resolve, 50));
+                sequence.push('api');
+                return 'api';
+            },
+        }).down({
+            db: () => { sequence.push('stop db'); },
+            api: () => { sequence.push('stop api'); },
+        });
+
+        const start = assert.rejects(server.start(), { message: 'Start cancelled, server is stopping (unspecified reason)' });
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await server.stop();
+
+        assert.deepEqual(sequence, ['api', 'stop api', 'stop db']);
+        assert.equal(server.status().services.api.state, 'down');
+        assert.equal(server.status().services.db.state, 'down');
+        await start;
+    });
+
+    it('ctx.signal: aborted when start attempt times out', async () => {
+        const aborted: unknown[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            model: async ctx => {
+                ctx.signal.addEventListener('abort', () => aborted.push((ctx.signal.reason as Error).message));
+                await new Promise(resolve => setTimeout(resolve, 100));
+                return 'model';
+            },
+        }).policy({
+            model: { startTimeoutMs: 10 },
+        });
+
+        await assert.rejects(server.start(), { message: 'Service model failed to start after 1 attempt: Init timed out after 10ms' });
+        assert.deepEqual(aborted, ['Init timed out after 10ms']);
+    });
+
+    it('stop(): interrupts retry backoff', async () => {
+        let attempts = 0;
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            db: () => {
+                attempts++;
+                throw new Error('not ready');
+            },
+        }).policy({
+            db: { attempts: 5, backoffMs: 10000 },
+        });
+
+        const start = server.start();
+        await new Promise(resolve => setImmediate(resolve));
+        await server.stop();
+
+        await assert.rejects(start, { message: 'Start cancelled, server is stopping (unspecified reason)' });
+        assert.equal(attempts, 1);
+    });
+
+    it('start(): works again after stop', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: ctx => ctx.signal.aborted ? 'aborted' : 'db',
+        });
+
+        await server.start();
+        await server.stop();
+        await server.start();
+        assert.equal(server.services.db, 'db');
+    });
+});
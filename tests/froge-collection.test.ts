@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+import { quietLogger } from './samples/quiet-logger';
+
+interface Route {
+    path: string,
+}
+
+describe('Froge (collections)', () => {
+    it('ctx.collection(): items are contributed by later services', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            routes: ctx => ctx.collection<Route>(),
+        }).up({
+            users: {
+                init: () => ({ path: '/users' }),
+                contributes: { routes: service => service },
+            },
+            orders: {
+                init: () => ({ route: { path: '/orders' } }),
+                contributes: { routes: service => service.route },
+            },
+        });
+
+        await server.start();
+        assert.deepEqual(server.services.routes.items(), [{ path: '/users' }, { path: '/orders' }]);
+        assert.equal(server.services.routes.size, 2);
+        assert.deepEqual(Array.from(server.services.routes, route => route.path), ['/users', '/orders']);
+        await server.stop();
+    });
+
+    it('subscribe(): owner is notified as contributors start and stop', async () => {
+        const events: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            routes: ctx => ctx.collection<Route>(),
+        }).up({
+            router: ctx => {
+                ctx.services.routes.subscribe({
+                    added: (route, contributor) => events.push(`mount ${route.path} from ${contributor}`),
+                    removed: route => events.push(`unmount ${route.path}`),
+                });
+                return 'router';
+            },
+        }).up({
+            users: {
+                init: () => ({ path: '/users' }),
+                contributes: { routes: service => service },
+            },
+        }).down({
+            users: () => { events.push('stop users'); },
+        });
+
+        await server.start();
+        const routes = server.services.routes;
+        assert.deepEqual(events, ['mount /users from users']);
+        await server.restart('users');
+        await server.stop();
+        assert.deepEqual(events, ['mount /users from users', 'unmount /users', 'stop users', 'mount /users from users', 'unmount /users', 'stop users']);
+        assert.equal(routes.size, 0);
+    });
+
+    it('stop(): items of contributors without destroyer are removed', async () => {
+        const removed: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            routes: ctx => {
+                const routes = ctx.collection<Route>();
+                routes.subscribe({ removed: route => removed.push(route.path) });
+                return routes;
+            },
+        }).up({
+            users: {
+                init: () => ({ path: '/users' }),
+                contributes: { routes: service => service },
+            },
+        });
+
+        await server.start();
+        const routes = server.services.routes;
+        await server.stop();
+        assert.equal(routes.size, 0);
+        assert.deepEqual(removed, ['/users']);
+    });
+
+    it('contributes: collection owner starts first with dependsOn', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            hooks: {
+                lazy: true,
+                init: ctx => ctx.collection<() => void>(),
+            },
+            other: () => 'other',
+        }).up({
+            worker: {
+                dependsOn: [],
+                init: () => ({ close: () => {} }),
+                contributes: { hooks: service => service.close },
+            },
+        });
+
+        await server.start();
+        assert.equal(server.status().services.hooks.state, 'up');
+        assert.equal(server.services.hooks.size, 1);
+        await server.stop();
+    });
+
+    it('contributes: failed listener is logged and does not fail the contributor', async () => {
+        const errors: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+            logger: { ...quietLogger, error: (message, fields) => errors.push(`${fields?.service}: ${message}`) },
+        }).up({
+            routes: ctx => {
+                const routes = ctx.collection<Route>();
+                routes.subscribe({ added: () => { throw new Error('conflicting route'); } });
+                return routes;
+            },
+        }).up({
+            users: {
+                init: () => ({ path: '/users' }),
+                contributes: { routes: service => service },
+            },
+        });
+
+        await server.start();
+        assert.equal(server.status().services.users.state, 'up');
+        assert.deepEqual(errors, ['users: Failed to contribute to routes:']);
+        await server.stop();
+    });
+});
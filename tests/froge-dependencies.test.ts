@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Froge (explicit dependencies)', () => {
+    it('dependsOn: service starts as soon as its dependencies are ready', async () => {
+        const startSequence: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => { startSequence.push('db'); return 'db'; },
+            slow: async () => { await delay(50); startSequence.push('slow'); return 'slow'; },
+        }).up({
+            api: {
+                dependsOn: ['db'],
+                init: ctx => {
+                    startSequence.push('api');
+                    return { db: ctx.services.db };
+                },
+            },
+            other: () => { startSequence.push('other'); return 'other'; },
+        });
+
+        await server.start();
+        assert.deepEqual(startSequence, ['db', 'api', 'slow', 'other']);
+        assert.equal(server.services.api.db, 'db');
+    });
+
+    it('dependsOn: dependents are stopped first', async () => {
+        const stopSequence: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => 'db',
+            slow: () => 'slow',
+        }).up({
+            api: {
+                dependsOn: ['db'],
+                init: () => 'api',
+            },
+        }).up({
+            http: {
+                dependsOn: ['api'],
+                init: () => 'http',
+            },
+        }).down({
+            db: () => { stopSequence.push('db'); },
+            slow: async () => { await delay(50); stopSequence.push('slow'); },
+            api: async () => { await delay(10); stopSequence.push('api'); },
+            http: () => { stopSequence.push('http'); },
+        });
+
+        await server.start();
+        await server.stop();
+        // slow doesn't wait for anything, but takes long
+        assert.deepEqual(stopSequence, ['http', 'api', 'db', 'slow']);
+    });
+
+    it('dependsOn: only() starts declared dependencies', async () => {
+        const startSequence: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => { startSequence.push('db'); return 'db'; },
+            cache: () => { startSequence.push('cache'); return 'cache'; },
+        }).up({
+            migrations: {
+                dependsOn: ['db'],
+                init: () => { startSequence.push('migrations'); return 'migrations'; },
+            },
+        });
+
+        await server.only('migrations');
+        assert.deepEqual(startSequence, ['db', 'migrations']);
+    });
+
+    it('dependsOn: sequential start keeps dependencies first', async () => {
+        const startSequence: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+            parallelStartGroups: false,
+        }).up({
+            db: () => { startSequence.push('db'); return 'db'; },
+        }).up({
+            api: {
+                dependsOn: ['db'],
+                init: () => { startSequence.push('api'); return 'api'; },
+            },
+            other: () => { startSequence.push('other'); return 'other'; },
+        });
+
+        await server.start();
+        assert.deepEqual(startSequence, ['db', 'api', 'other']);
+    });
+
+    it('dependsOn: detects cycles', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            a: () => 'a',
+        }).up({
+            b: {
+                dependsOn: ['c' as any],
+                init: () => 'b',
+            },
+        }).up({
+            c: () => 'c',
+        });
+
+        await assert.rejects(server.start(), { message: 'Dependency cycle detected: b -> c -> b' });
+    });
+
+    it('dependsOn: unknown dependency', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            a: {
+                dependsOn: ['unknown'],
+                init: () => 'a',
+            },
+        } as any);
+
+        await assert.rejects(server.start(), { message: 'Service a depends on unknown service unknown' });
+    });
+});
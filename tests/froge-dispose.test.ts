@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+
+describe('Froge (disposable)', () => {
+    it('stop(): disposes services without destroyer', async () => {
+        const sequence: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+            parallelStopGroups: false,
+        }).up({
+            sync: () => ({ [Symbol.dispose]: () => { sequence.push('sync'); } }),
+            async: () => ({ [Symbol.asyncDispose]: async () => { sequence.push('async'); } }),
+        }).up({
+            both: () => ({
+                [Symbol.dispose]: () => { sequence.push('both sync'); },
+                [Symbol.asyncDispose]: async () => { sequence.push('both async'); },
+            }),
+            custom: () => ({ [Symbol.dispose]: () => { sequence.push('custom dispose'); } }),
+        }).down({
+            custom: () => { sequence.push('custom destroyer'); },
+        });
+
+        await server.start();
+        await server.stop();
+
+        assert.deepEqual(sequence, ['custom destroyer', 'both async', 'async', 'sync']);
+        assert.equal(server.status().services.sync.state, 'down');
+    });
+
+    it('graph(): started disposable service is reported as having destroyer', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => ({ [Symbol.asyncDispose]: async () => {} }),
+            plain: () => 'plain',
+        });
+
+        assert.equal(server.graph().services.find(service => service.key === 'db')?.destroyer, false);
+        await server.start();
+        const destroyers = server.graph().services.map(service => [service.key, service.destroyer]);
+        assert.deepEqual(destroyers, [['db', true], ['plain', false]]);
+        await server.stop();
+    });
+
+    it('[Symbol.asyncDispose](): stops the server', async () => {
+        let disposed = false;
+
+        {
+            await using server = froge().configure({
+                verbose: false,
+            }).up({
+                db: () => ({ [Symbol.asyncDispose]: async () => { disposed = true; } }),
+            });
+            await server.only('db');
+        }
+
+        assert.equal(disposed, true);
+    });
+
+    it('createScope(): disposes scoped services without destroyer', async () => {
+        let disposed = false;
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            tx: {
+                lifetime: 'scoped',
+                init: () => ({ [Symbol.dispose]: () => { disposed = true; } }),
+            },
+        });
+
+        await server.start();
+        {
+            await using scope = server.createScope();
+            scope.services.tx;
+        }
+        assert.equal(disposed, true);
+    });
+});
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge, { type FrogeEvents } from '../src';
+
+function record(server: { on: (event: any, listener: (...args: any[]) => void) => any }, events: (keyof FrogeEvents)[]) {
+    const log: string[] = [];
+    for (const event of events) {
+        server.on(event, (info?: any) => log.push(info?.key ? `${event}:${info.key}` : event));
+    }
+    return log;
+}
+
+const allEvents: (keyof FrogeEvents)[] = [
+    'starting', 'serviceStarting', 'serviceReady', 'serviceFailed', 'serviceStopping',
+    'serviceStopped', 'pluginStarted', 'started', 'stopping', 'stopped',
+];
+
+describe('Froge (lifecycle events)', () => {
+    it('on(): emits lifecycle events in order', async () => {
+        const server = froge().configure({
+            verbose: false,
+            parallelStartGroups: false,
+        }).up({
+            test1: () => 'test1',
+        }).up({
+            test2: () => 'test2',
+        }).down({
+            test1: () => {},
+            test2: () => {},
+        });
+        const log = record(server, allEvents);
+
+        await server.start();
+        await server.stop('test');
+        assert.deepEqual(log, [
+            'starting',
+            'serviceStarting:test1', 'serviceReady:test1',
+            'serviceStarting:test2', 'serviceReady:test2',
+            'started',
+            'stopping',
+            'serviceStopping:test2', 'serviceStopped:test2',
+            'serviceStopping:test1', 'serviceStopped:test1',
+            'stopped',
+        ]);
+    });
+
+    it('on(): events carry service info, duration and error', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test1: () => 'test1',
+        }, 'alpha').up({
+            test2: () => { throw new Error('test2 failed'); },
+        }, 'beta');
+
+        let ready: FrogeEvents['serviceReady'][0] | undefined;
+        let failed: FrogeEvents['serviceFailed'][0] | undefined;
+        server.on('serviceReady', info => ready = info)
+            .on('serviceFailed', info => failed = info);
+
+        await assert.rejects(server.start());
+        assert.equal(ready?.key, 'test1');
+        assert.equal(ready?.group, 'alpha');
+        assert.equal(ready?.level, 0);
+        assert.equal(typeof ready?.durationMs, 'number');
+        assert.equal(failed?.key, 'test2');
+        assert.equal(failed?.group, 'beta');
+        assert.equal(failed?.level, 1);
+        assert.equal(failed?.stage, 'start');
+        assert.equal((failed?.error as Error).message, 'test2 failed');
+    });
+
+    it('on(): forwards plugin events', async () => {
+        const plugin = froge().up({
+            pluginService: () => 'pluginService',
+        }).down({
+            pluginService: () => {},
+        });
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test: () => 'test',
+        }).use(plugin).down({
+            test: () => {},
+        });
+        const log = record(server, allEvents);
+
+        await server.start();
+        await server.stop();
+        // Restart must not duplicate forwarded events
+        await server.start();
+        assert.deepEqual(log, [
+            'starting',
+            'serviceStarting:test', 'serviceReady:test',
+            'serviceStarting:pluginService', 'serviceReady:pluginService',
+            'pluginStarted',
+            'started',
+            'stopping',
+            'serviceStopping:pluginService', 'serviceStopped:pluginService',
+            'serviceStopping:test', 'serviceStopped:test',
+            'stopped',
+            'starting',
+            'serviceStarting:test', 'serviceReady:test',
+            'serviceStarting:pluginService', 'serviceReady:pluginService',
+            'pluginStarted',
+            'started',
+        ]);
+        await server.stop();
+    });
+
+    it('off(): unsubscribes from events', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test: () => 'test',
+        });
+        let count = 0;
+        const listener = () => { count++; };
+
+        server.on('started', listener);
+        await server.start();
+        server.off('started', listener);
+        await server.stop();
+        await server.start();
+        assert.equal(count, 1);
+        await server.stop();
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge, { graphToDot, graphToMermaid } from '../src';
+import createExampleServer from './samples/example-server';
+
+function createServer() {
+    const plugin = froge().up({
+        pluginService: () => 'pluginService',
+    });
+    return froge().configure({
+        verbose: false,
+    }).up({
+        db: () => 'db',
+        events: ctx => ctx.plug<string>(),
+    }, 'alpha')
+    .use(plugin)
+    .up({
+        api: {
+            dependsOn: ['db'],
+            init: () => 'api',
+        },
+    })
+    .use(ctx => createExampleServer('test'))
+    .up({
+        events: () => () => 'events',
+    }).down({
+        db: () => {},
+    });
+}
+
+describe('Froge (service graph)', () => {
+    it('graph(): describes services and plugins', async () => {
+        const server = createServer();
+
+        let graph = server.graph();
+        assert.deepEqual(graph.plugins, [
+            { name: 'plugin (pluginService)', level: 0, resolved: true, services: ['pluginService'], dependsOn: ['db'] },
+            { name: 'plugin #1 after group 1', level: 1, resolved: false, services: [], dependsOn: ['db', 'api', 'pluginService'] },
+        ]);
+        assert.deepEqual(graph.services, [
+            { key: 'db', group: 'alpha', level: 0, plug: false, lazy: false, destroyer: true, dependsOn: [] },
+            { key: 'pluginService', group: undefined, level: 0, plugin: 'plugin (pluginService)', plug: false, lazy: false, destroyer: false, dependsOn: ['db'] },
+            { key: 'api', group: undefined, level: 1, plug: false, lazy: false, destroyer: false, dependsOn: ['pluginService', 'db'] },
+            {
+                key: 'events', group: undefined, level: 2, plug: true, lazy: false, destroyer: false,
+                dependsOn: ['db', 'api', 'pluginService', 'plugin #1 after group 1'],
+            },
+        ]);
+
+        // Factory plugin is resolved once started
+        await server.start();
+        graph = server.graph();
+        assert.deepEqual(graph.plugins[1], {
+            name: 'plugin (exampleService)', level: 1, resolved: true, services: ['exampleService'], dependsOn: ['db', 'api', 'pluginService'],
+        });
+        assert.deepEqual(graph.services.find(service => service.key === 'exampleService')?.dependsOn, ['db', 'api', 'pluginService']);
+        await server.stop();
+    });
+
+    it('graphToMermaid(): renders flowchart', () => {
+        assert.equal(graphToMermaid(createServer().graph()), [
+            'flowchart TD',
+            '    subgraph c0 ["alpha (level 0)"]',
+            '        n0["db"]',
+            '    end',
+            '    subgraph c1 ["level 1"]',
+            '        n2["api"]',
+            '    end',
+            '    subgraph c2 ["level 2"]',
+            '        n3["events (plug)"]',
+            '    end',
+            '    subgraph c3 ["plugin (pluginService)"]',
+            '        n1["pluginService"]',
+            '    end',
+            '    subgraph c4 ["plugin #1 after group 1"]',
+            '        n5[["unresolved"]]',
+            '    end',
+            '    n0 --> n1',
+            '    n1 --> n2',
+            '    n5 --> n3',
+            '    n2 --> n5',
+        ].join('\n'));
+    });
+
+    it('graphToDot(): renders digraph', () => {
+        const dot = graphToDot(createServer().graph());
+        assert.ok(dot.startsWith('digraph froge {\n'));
+        assert.ok(dot.includes('    subgraph cluster_0 {\n        label="alpha (level 0)";\n        n0 [label="db"];\n    }'));
+        assert.ok(dot.includes('n5 [label="unresolved", style=dashed];'));
+        assert.ok(dot.includes('    n0 -> n1;\n    n1 -> n2;\n    n5 -> n3;\n    n2 -> n5;\n}'));
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+
+describe('Froge (health checks)', () => {
+    it('health(): reports healthy services', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test1: () => ({ ping: () => true }),
+            test2: () => 'test2',
+        }).health({
+            test1: async service => service.ping(),
+        });
+
+        await server.start();
+        const report = await server.health();
+        assert.equal(report.status, 'healthy');
+        assert.deepEqual(Object.keys(report.services), ['test1']);
+        assert.equal(report.services.test1?.status, 'pass');
+        assert.equal(typeof report.services.test1?.latencyMs, 'number');
+        await server.stop();
+    });
+
+    it('health(): skips services which are not started', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test1: () => 'test1',
+        }).up({
+            test2: () => 'test2',
+        }).health({
+            test1: () => true,
+            test2: () => true,
+        });
+
+        await server.only('test1');
+        const report = await server.health();
+        assert.equal(report.status, 'healthy');
+        assert.deepEqual(Object.keys(report.services), ['test1']);
+        await server.stop();
+    });
+
+    it('health(): reports degraded and unhealthy status', async () => {
+        let dbUp = true;
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => 'db',
+            cache: () => 'cache',
+        }).health({
+            db: () => {
+                if (!dbUp) {
+                    throw new Error('connection lost');
+                }
+            },
+            cache: {
+                check: () => false,
+                critical: false,
+            },
+        });
+
+        await server.start();
+        let report = await server.health();
+        assert.equal(report.status, 'degraded');
+        assert.equal(report.services.cache?.status, 'fail');
+        assert.equal(report.services.cache?.error, 'Health check failed');
+
+        dbUp = false;
+        report = await server.health();
+        assert.equal(report.status, 'unhealthy');
+        assert.equal(report.services.db?.error, 'connection lost');
+        await server.stop();
+    });
+
+    it('health(): times out slow checks', async () => {
+        const server = froge().configure({
+            verbose: false,
+            healthCheckTimeoutMs: 10,
+        }).up({
+            test1: () => 'test1',
+            test2: () => 'test2',
+        }).health({
+            test1: () => new Promise(resolve => setTimeout(resolve, 100)),
+            test2: {
+                check: () => new Promise(resolve => setTimeout(resolve, 30)),
+                timeoutMs: 100,
+            },
+        });
+
+        await server.start();
+        const report = await server.health();
+        assert.equal(report.status, 'unhealthy');
+        assert.equal(report.services.test1?.error, 'Health check timed out after 10ms');
+        assert.equal(report.services.test2?.status, 'pass');
+        await server.stop();
+    });
+
+    it('health(): includes plugin services', async () => {
+        const plugin = froge().up({
+            pluginService: () => 'pluginService',
+        }).health({
+            pluginService: () => false,
+        });
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test: () => 'test',
+        }).use(plugin);
+
+        await server.start();
+        const report = await server.health();
+        assert.equal(report.status, 'unhealthy');
+        assert.equal(report.services.pluginService?.status, 'fail');
+        await server.stop();
+    });
+
+    it('health(): trying to add health check to unknown service', () => {
+        assert.throws(
+            () => froge().up({ test: () => 'test' }).health({ unknown: () => true } as any),
+            { message: 'Trying to add health check to unknown service unknown' },
+        );
+    });
+});
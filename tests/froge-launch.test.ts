@@ -0,0 +1,116 @@
+import { before, after, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { constants } from 'node:os';
+import froge from '../src';
+import { quietLogger } from './samples/quiet-logger';
+
+describe('Froge (launch)', () => {
+    const processExitOrig = process.exit;
+    let exitCodes: (number | string | null | undefined)[] = [];
+
+    before(() => {
+        process.exit = ((code?: number) => {
+            exitCodes.push(code ?? process.exitCode);
+        }) as () => never;
+    });
+
+    after(() => {
+        process.exit = processExitOrig;
+        process.exitCode = undefined;
+    });
+
+    beforeEach(() => {
+        exitCodes = [];
+        process.exitCode = undefined;
+    });
+
+    it('launch(): shuts down on configured signals and removes listeners after stop', async () => {
+        const listeners = process.listenerCount('SIGUSR2');
+        let stopped = false;
+
+        const server = await froge().configure({
+            verbose: false,
+            gracefulShutdownTimeoutMs: 999999,
+            shutdownSignals: ['SIGUSR2'],
+        }).up({
+            test: () => 'test',
+        }).down({
+            test: () => { stopped = true; },
+        }).launch();
+
+        assert.equal(process.listenerCount('SIGUSR2'), listeners + 1);
+        const shutdown = new Promise(resolve => server.once('stopped', resolve));
+        process.emit('SIGUSR2');
+        await shutdown;
+
+        assert.equal(stopped, true);
+        assert.equal(process.listenerCount('SIGUSR2'), listeners);
+        assert.deepEqual(exitCodes, []);
+    });
+
+    it('launch(): repeated signal during shutdown forces exit', async () => {
+        let finishStop: () => void;
+        let stopStarted: () => void;
+        const stopping = new Promise<void>(resolve => stopStarted = resolve);
+
+        const server = await froge().configure({
+            verbose: false,
+            logger: quietLogger,
+            gracefulShutdownTimeoutMs: 999999,
+            shutdownSignals: ['SIGUSR2'],
+        }).up({
+            test: () => 'test',
+        }).down({
+            test: () => new Promise<void>(resolve => {
+                finishStop = resolve;
+                stopStarted();
+            }),
+        }).launch();
+
+        const stopped = new Promise(resolve => server.once('stopped', resolve));
+        process.emit('SIGUSR2');
+        await stopping;
+        process.emit('SIGUSR2');
+        assert.deepEqual(exitCodes, [128 + constants.signals.SIGUSR2]);
+
+        finishStop!();
+        await stopped;
+    });
+
+    it('launch(): shuts down on crash if enabled', async () => {
+        const listeners = process.listenerCount('uncaughtException');
+        let stopReason: string | undefined;
+
+        const server = await froge().configure({
+            verbose: false,
+            logger: quietLogger,
+            gracefulShutdownTimeoutMs: 999999,
+            shutdownOnCrash: true,
+        }).up({
+            test: () => 'test',
+        }).launch();
+        server.on('stopping', ({ reason }) => stopReason = reason);
+
+        // Test runner has its own listener, so ours is called directly
+        const listener = process.listeners('uncaughtException').at(-1)!;
+        await listener(new Error('boom'), 'uncaughtException');
+
+        assert.match(stopReason ?? '', /^Error: boom, /);
+        assert.deepEqual(exitCodes, [1]);
+        assert.equal(process.listenerCount('uncaughtException'), listeners);
+    });
+
+    it('launch(): crashes are not handled by default', async () => {
+        const listeners = process.listenerCount('unhandledRejection');
+
+        const server = await froge().configure({
+            verbose: false,
+            gracefulShutdownTimeoutMs: 999999,
+        }).up({
+            test: () => 'test',
+        }).launch();
+
+        assert.equal(process.listenerCount('unhandledRejection'), listeners);
+        await server.stop();
+    });
+});
@@ -0,0 +1,160 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Froge (lazy services)', () => {
+    it('lazy: not started with the server, started by get()', async () => {
+        const sequence: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => { sequence.push('start db'); return 'db'; },
+        }).up({
+            report: {
+                lazy: true,
+                init: async ctx => { await delay(5); sequence.push('start report'); return `report(${ctx.services.db})`; },
+            },
+        }).down({
+            db: () => { sequence.push('stop db'); },
+            report: () => { sequence.push('stop report'); },
+        });
+
+        await server.start();
+        assert.deepEqual(sequence, ['start db']);
+        assert.equal(server.status().services.report.state, 'registered');
+
+        assert.equal(await server.get('report'), 'report(db)');
+        assert.equal(await server.get('report'), 'report(db)');
+        assert.deepEqual(sequence, ['start db', 'start report']);
+
+        await server.stop();
+        assert.deepEqual(sequence, ['start db', 'start report', 'stop report', 'stop db']);
+    });
+
+    it('lazy: concurrent get() initializes once', async () => {
+        let calls = 0;
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            report: {
+                lazy: true,
+                init: async () => { calls++; await delay(10); return 'report'; },
+            },
+        });
+
+        await server.start();
+        const values = await Promise.all([server.get('report'), server.get('report'), server.get('report')]);
+        assert.deepEqual(values, ['report', 'report', 'report']);
+        assert.equal(calls, 1);
+    });
+
+    it('lazy: sync service is started on first access', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            config: () => ({ port: 80 }),
+        }).up({
+            url: {
+                lazy: true,
+                init: ctx => `http://localhost:${ctx.services.config.port}`,
+            },
+        });
+
+        await server.start();
+        assert.equal(server.services.url, 'http://localhost:80');
+    });
+
+    it('lazy: async service access requires get()', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            report: {
+                lazy: true,
+                init: async () => 'report',
+            },
+        });
+
+        await server.start();
+        assert.throws(() => server.services.report, {
+            message: 'Lazy service "report" is initialized asynchronously, use "await server.get(\'report\')" to access it',
+        });
+        // Initialization started by the access above is reused
+        assert.equal(await server.get('report'), 'report');
+    });
+
+    it('lazy: started with the server when eager service depends on it', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: {
+                lazy: true,
+                init: () => 'db',
+            },
+            unused: {
+                lazy: true,
+                init: () => 'unused',
+            },
+        }).up({
+            api: {
+                dependsOn: ['db'],
+                init: ctx => `api(${ctx.services.db})`,
+            },
+            other: () => 'other',
+        });
+
+        await server.start();
+        assert.equal(server.services.api, 'api(db)');
+        assert.equal(server.status().services.db.state, 'up');
+        assert.equal(server.status().services.unused.state, 'registered');
+    });
+
+    it('lazy: failed start is reported to get() and can be retried', async () => {
+        let fail = true;
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            report: {
+                lazy: true,
+                init: async () => {
+                    if (fail) {
+                        throw new Error('not yet');
+                    }
+                    return 'report';
+                },
+            },
+        });
+
+        await server.start();
+        await assert.rejects(server.get('report'), { message: 'not yet' });
+        fail = false;
+        assert.equal(await server.get('report'), 'report');
+    });
+
+    it('lazy: not started while the server is stopping', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            metrics: {
+                lazy: true,
+                init: () => 'metrics',
+            },
+        }).up({
+            api: () => 'api',
+        }).down({
+            // failed assertions fail stop()
+            api: async () => {
+                assert.throws(() => server.services.metrics, { message: 'Can\'t access service "metrics" before it was started' });
+                await assert.rejects(server.get('metrics'), { message: 'Can\'t access service "metrics" before it was started' });
+            },
+        });
+
+        await server.start();
+        await server.stop();
+        assert.equal(server.status().services.metrics.state, 'registered');
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge, { type FrogeLogger, type LogFields, jsonLogger } from '../src';
+
+function memoryLogger() {
+    const records: { level: string, message: string, fields?: LogFields }[] = [];
+    const logger: FrogeLogger = {
+        debug: (message, fields) => records.push({ level: 'debug', message, fields }),
+        info: (message, fields) => records.push({ level: 'info', message, fields }),
+        warn: (message, fields) => records.push({ level: 'warn', message, fields }),
+        error: (message, fields) => records.push({ level: 'error', message, fields }),
+    };
+    return { logger, records };
+}
+
+describe('Froge (logger)', () => {
+    it('logger: receives lifecycle logs with service key', async () => {
+        const { logger, records } = memoryLogger();
+        const server = froge().configure({
+            logger,
+        }).up({
+            test: () => 'test',
+        });
+
+        await server.start();
+        assert.deepEqual(records.slice(0, 3), [
+            { level: 'info', message: 'Starting...', fields: undefined },
+            { level: 'info', message: 'Initializing...', fields: { service: 'test' } },
+            { level: 'info', message: 'Ready', fields: { service: 'test' } },
+        ]);
+        // Timings table
+        assert.equal(records.length, 4);
+        assert.match(records[3].message, /^Started in /);
+    });
+
+    it('logger: filters by minimum level', async () => {
+        const { logger, records } = memoryLogger();
+        const server = froge().configure({
+            logger,
+            logLevel: 'warn',
+        }).up({
+            test: ctx => {
+                ctx.log.info('info message');
+                ctx.log.warn('warn message');
+                return 'test';
+            },
+        });
+
+        await server.start();
+        assert.deepEqual(records.map(r => r.message), ['warn message']);
+    });
+
+    it('logger: verbose=false only prints warnings and errors', async () => {
+        const { logger, records } = memoryLogger();
+        const server = froge().configure({
+            logger,
+            verbose: false,
+            logLevel: 'debug',
+        }).up({
+            test: ctx => {
+                ctx.log('info message');
+                ctx.log.debug('debug message');
+                ctx.log.error('error message');
+                return 'test';
+            },
+        });
+
+        await server.start();
+        assert.deepEqual(records.map(r => r.message), ['error message']);
+    });
+
+    it('ctx.log: attaches service key and fields', async () => {
+        const { logger, records } = memoryLogger();
+        const server = froge().configure({
+            logger,
+            logLevel: 'debug',
+        }).up({
+            test: ctx => {
+                ctx.log('connected to %s', 'db', 42);
+                ctx.log.debug('pool created', { size: 10 });
+                return 'test';
+            },
+        });
+
+        await server.start();
+        assert.deepEqual(records.find(r => r.message === 'connected to db 42'), {
+            level: 'info', message: 'connected to db 42', fields: { service: 'test' },
+        });
+        assert.deepEqual(records.find(r => r.message === 'pool created'), {
+            level: 'debug', message: 'pool created', fields: { size: 10, service: 'test' },
+        });
+    });
+
+    it('logger: pushed to plugins', async () => {
+        const { logger, records } = memoryLogger();
+        const plugin = froge().up({
+            pluginService: ctx => {
+                ctx.log.warn('from plugin');
+                return 'pluginService';
+            },
+        });
+        const server = froge().configure({
+            logger,
+            verbose: false,
+        }).use(plugin);
+
+        await server.start();
+        assert.deepEqual(records, [
+            { level: 'warn', message: 'from plugin', fields: { service: 'pluginService' } },
+        ]);
+    });
+
+    it('jsonLogger(): writes JSON lines', () => {
+        const lines: string[] = [];
+        const logger = jsonLogger({ write: line => lines.push(line) });
+
+        logger.info('Ready', { service: 'db' });
+        logger.error('Failed', { error: new Error('boom') });
+
+        assert.equal(lines.length, 2);
+        assert.ok(lines.every(line => line.endsWith('\n')));
+        const first = JSON.parse(lines[0]);
+        assert.equal(first.level, 'info');
+        assert.equal(first.message, 'Ready');
+        assert.equal(first.service, 'db');
+        assert.equal(typeof first.time, 'string');
+        const second = JSON.parse(lines[1]);
+        assert.equal(second.level, 'error');
+        assert.equal(second.error.message, 'boom');
+        assert.equal(second.error.name, 'Error');
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+import { quietLogger } from './samples/quiet-logger';
+
+describe('Froge (optional services)', () => {
+    it('optional: failed init does not fail the start', async () => {
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            db: () => 'db',
+            metrics: {
+                optional: true,
+                init: async (): Promise<{ push: (value: number) => void }> => { throw new Error('exporter unavailable'); },
+            },
+        }).up({
+            api: ctx => ({
+                db: ctx.services.db,
+                track: (value: number) => ctx.services.metrics?.push(value),
+            }),
+        });
+
+        await server.start();
+        assert.equal(server.services.metrics, undefined);
+        assert.equal(server.services.api.track(1), undefined);
+        const { state, error, level } = server.status().services.metrics;
+        assert.deepEqual({ state, error, level }, { state: 'failed', error: 'exporter unavailable', level: 0 });
+        assert.equal(server.status().services.api.state, 'up');
+    });
+
+    it('optional: failure is logged and emitted', async () => {
+        const errors: string[] = [];
+        const failed: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+            logger: { ...quietLogger, error: (message, fields) => errors.push(`${fields?.service}: ${message}`) },
+        }).up({
+            flags: {
+                optional: true,
+                init: () => { throw new Error('no flags'); },
+            },
+        });
+        server.on('serviceFailed', info => failed.push(info.key));
+
+        await server.start();
+        assert.deepEqual(errors, ['flags: Optional service failed to start, continuing without it:']);
+        assert.deepEqual(failed, ['flags']);
+    });
+
+    it('optional: restart() brings the service and its dependents up', async () => {
+        let available = false;
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            cache: {
+                optional: true,
+                init: () => {
+                    if (!available) {
+                        throw new Error('cache is down');
+                    }
+                    return 'cache';
+                },
+            },
+        }).up({
+            api: ctx => `api(${ctx.services.cache ?? 'no cache'})`,
+        });
+
+        await server.start();
+        assert.equal(server.services.api, 'api(no cache)');
+
+        available = true;
+        assert.equal(await server.restart('cache'), 'cache');
+        assert.equal(server.status().services.cache.state, 'up');
+        assert.equal(server.services.api, 'api(cache)');
+    });
+
+    it('optional: other services still fail the start', async () => {
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            optional: {
+                optional: true,
+                init: () => { throw new Error('optional failed'); },
+            },
+            required: () => { throw new Error('required failed'); },
+        });
+
+        await assert.rejects(server.start(), { message: 'required failed' });
+    });
+});
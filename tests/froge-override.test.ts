@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+
+interface Cache {
+    get: (key: string) => string | undefined,
+}
+
+function createServer(sequence: string[]) {
+    return froge().configure({
+        verbose: false,
+    }).up({
+        cache: (): Cache => {
+            sequence.push('redis');
+            return { get: key => `redis ${key}` };
+        },
+    }, 'infra').up({
+        api: ctx => {
+            sequence.push('api');
+            return { page: () => ctx.services.cache.get('page') };
+        },
+    }).down({
+        cache: () => { sequence.push('stop redis'); },
+    });
+}
+
+describe('Froge (override)', () => {
+    it('override(): replaces init and destroyer, keeping group and level', async () => {
+        const sequence: string[] = [];
+        const server = createServer(sequence).override({
+            cache: {
+                init: () => {
+                    sequence.push('memory');
+                    return { get: key => `memory ${key}` };
+                },
+                destroy: () => { sequence.push('stop memory'); },
+            },
+        });
+
+        await server.start();
+        assert.equal(server.services.api.page(), 'memory page');
+        assert.equal(server.status().services.cache.group, 'infra');
+        assert.equal(server.status().services.cache.level, 0);
+        await server.stop();
+        assert.deepEqual(sequence, ['memory', 'api', 'stop memory']);
+    });
+
+    it('override(): original destroyer is dropped', async () => {
+        const sequence: string[] = [];
+        const server = createServer(sequence).override({
+            cache: () => ({ get: () => undefined }),
+        });
+
+        await server.start();
+        assert.equal(server.services.api.page(), undefined);
+        await server.stop();
+        assert.deepEqual(sequence, ['api']);
+    });
+
+    it('override(): not applied unless the condition is true', async () => {
+        const sequence: string[] = [];
+        const server = createServer(sequence).override({
+            cache: () => ({ get: () => 'memory' }),
+        }, process.env.FROGE_TEST_OVERRIDE === 'memory');
+
+        await server.start();
+        assert.equal(server.services.api.page(), 'redis page');
+        await server.stop();
+    });
+
+    it('override(): unknown services and running server are rejected', async () => {
+        const server = createServer([]);
+        assert.throws(() => server.override({ unknown: () => 1 } as any), { message: 'Trying to override unknown service unknown' });
+
+        await server.start();
+        assert.throws(() => server.override({ cache: () => ({ get: () => '' }) }), { message: 'Trying to override services while server is started (cache)' });
+        await server.stop();
+    });
+});
@@ -304,6 +304,36 @@ describe('Froge (using plugins)', () => {
         assert.equal(lastErrorLog, undefined);
     });
 
+    it('start(): rolls back started plugins on failure', async () => {
+        const stopSequence: number[] = [];
+
+        const plugin = froge().up({
+            pluginService1: () => 'pluginService1',
+        }).down({
+            pluginService1: () => { stopSequence.push(11); },
+        });
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test1: () => 'test1',
+        })
+        .use(plugin)
+        .up({
+            test2: () => { throw new Error('test2 failed'); },
+        }).down({
+            test1: () => { stopSequence.push(1); },
+        });
+
+        await assert.rejects(server.start(), { message: 'test2 failed' });
+        assert.deepEqual(stopSequence, [11, 1]);
+        assert.throws(() => { console.log(server.services.pluginService1); });
+
+        // Plugin can be started again
+        await assert.rejects(server.start(), { message: 'test2 failed' });
+        assert.deepEqual(stopSequence, [11, 1, 11, 1]);
+    });
+
     it('use(): imports services from other instance', async () => {
         const other = froge().up({
             test: ctx => 'test',
@@ -370,6 +400,53 @@ describe('Froge (using plugins)', () => {
         }
     });
 
+    it('use(): same plugin mounted twice with prefixes', async () => {
+        const stopped: string[] = [];
+        const dbPlugin = (url: string) => () => froge().up({
+            db: () => ({ url }),
+        }).up({
+            repo: ctx => ({ find: () => `find in ${ctx.services.db.url}` }),
+        }).down({
+            db: db => { stopped.push(db.url); },
+        });
+
+        const server = froge().configure({
+            verbose: false,
+        })
+            .use(dbPlugin('primary'), { prefix: 'primary' })
+            .use(dbPlugin('replica'), { prefix: 'replica' })
+            .up({
+                reports: ctx => ({ run: () => ctx.services.replicaRepo.find() }),
+            });
+        const ready: string[] = [];
+        server.on('serviceReady', ({ key }) => ready.push(key));
+
+        await server.start();
+        assert.equal(server.services.primaryDb.url, 'primary');
+        assert.equal(server.services.replicaDb.url, 'replica');
+        assert.equal(server.services.reports.run(), 'find in replica');
+        assert.deepEqual(ready, ['primaryDb', 'primaryRepo', 'replicaDb', 'replicaRepo', 'reports']);
+        assert.equal(server.status().services.replicaRepo.plugin, 'plugin (replicaDb, replicaRepo)');
+
+        await server.stop();
+        assert.deepEqual(stopped, ['replica', 'primary']);
+    });
+
+    it('use(): prefixed service conflicting with existing service', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            replicaDb: () => 'replicaDb',
+        }).use(
+            froge().up({
+                db: () => 'db',
+            }),
+            { prefix: 'replica' } as any,
+        );
+
+        await assert.rejects(server.start(), { message: 'Plugin service db is conflicting with existing service replicaDb' });
+    });
+
     it('use(): same group names allowed in plugins', async () => {
         try {
             froge().up({
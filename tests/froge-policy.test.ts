@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+
+describe('Froge (service policies)', () => {
+    it('policy(): retries failed init', async () => {
+        let attempts = 0;
+        const server = froge().configure({
+            verbose: false,
+            logLevel: 'error',
+        }).up({
+            test: () => {
+                attempts++;
+                if (attempts < 3) {
+                    throw new Error('not yet');
+                }
+                return 'test';
+            },
+        }).policy({
+            test: { attempts: 5, backoffMs: 1 },
+        });
+
+        await server.start();
+        assert.equal(attempts, 3);
+        assert.equal(server.services.test, 'test');
+        await server.stop();
+    });
+
+    it('policy(): reports number of attempts when giving up', async () => {
+        let attempts = 0;
+        const server = froge().configure({
+            verbose: false,
+            logLevel: 'error',
+        }).up({
+            test: async () => {
+                attempts++;
+                throw new Error('db is down');
+            },
+        }).policy({
+            test: { attempts: 3, backoffMs: 1 },
+        });
+
+        await assert.rejects(server.start(), (e: any) => {
+            assert.equal(e.message, 'Service test failed to start after 3 attempts: db is down');
+            assert.equal(e.cause.message, 'db is down');
+            return true;
+        });
+        assert.equal(attempts, 3);
+    });
+
+    it('policy(): stops retrying on non-retryable error', async () => {
+        let attempts = 0;
+        const server = froge().configure({
+            verbose: false,
+            logLevel: 'error',
+        }).up({
+            test: () => {
+                attempts++;
+                throw new Error('bad credentials');
+            },
+        }).policy({
+            test: {
+                attempts: 5,
+                backoffMs: 1,
+                retryable: e => !(e as Error).message.includes('credentials'),
+            },
+        });
+
+        await assert.rejects(server.start(), { message: 'Service test failed to start after 1 attempt: bad credentials' });
+        assert.equal(attempts, 1);
+    });
+
+    it('policy(): times out hanging init', async () => {
+        let attempts = 0;
+        const server = froge().configure({
+            verbose: false,
+            logLevel: 'error',
+        }).up({
+            test: () => {
+                attempts++;
+                return new Promise<string>(resolve => setTimeout(() => resolve('test'), attempts === 1 ? 200 : 1));
+            },
+        }).policy({
+            test: { startTimeoutMs: 20, attempts: 2, backoffMs: 1 },
+        });
+
+        await server.start();
+        assert.equal(attempts, 2);
+        assert.equal(server.services.test, 'test');
+        await server.stop();
+    });
+
+    it('policy(): destroys the result of timed out init', async () => {
+        let created = 0;
+        let destroyed = 0;
+        const server = froge().configure({
+            verbose: false,
+            logLevel: 'error',
+        }).up({
+            pool: async () => {
+                await new Promise(resolve => setTimeout(resolve, 50));
+                return { id: ++created };
+            },
+        }).down({
+            pool: () => { destroyed++; },
+        }).policy({
+            pool: { startTimeoutMs: 10, attempts: 2, backoffMs: 1, jitter: 0 },
+        });
+
+        await assert.rejects(server.start(), { message: 'Service pool failed to start after 2 attempts: Init timed out after 10ms' });
+        await new Promise(resolve => setTimeout(resolve, 100));
+        assert.equal(created, 2);
+        assert.equal(destroyed, 2);
+    });
+
+    it('policy(): trying to add policy to unknown service', () => {
+        assert.throws(
+            () => froge().up({ test: () => 'test' }).policy({ unknown: {} } as any),
+            { message: 'Trying to add policy to unknown service unknown' },
+        );
+    });
+});
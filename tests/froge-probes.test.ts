@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import froge from '../src';
+import { probes } from '../src/probes';
+
+function probeUrl(server: Server, path: string) {
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`;
+}
+
+describe('Froge (probes plugin)', () => {
+    it('probes(): readiness follows server lifecycle', async () => {
+        const readiness: number[] = [];
+        let releaseStart = () => {};
+        const startBlocked = new Promise<void>(resolve => releaseStart = resolve);
+
+        const server = froge().configure({
+            verbose: false,
+        })
+        .use(probes({ port: 0, host: '127.0.0.1' }))
+        .up({
+            test: async () => {
+                await startBlocked;
+                return 'test';
+            },
+        });
+        server.down({
+            test: async () => {
+                readiness.push((await fetch(probeUrl(server.services.probeServer, '/readyz'))).status);
+            },
+        });
+
+        const started = server.start();
+        // Wait until probe server is listening
+        while (!server.status().services.probeServer || server.status().services.probeServer.state !== 'up') {
+            await new Promise(resolve => setTimeout(resolve, 1));
+        }
+        const probeServer = server.services.probeServer;
+        assert.equal((await fetch(probeUrl(probeServer, '/healthz'))).status, 200);
+        readiness.push((await fetch(probeUrl(probeServer, '/readyz'))).status);
+
+        releaseStart();
+        await started;
+        readiness.push((await fetch(probeUrl(probeServer, '/readyz'))).status);
+
+        await server.stop();
+        assert.deepEqual(readiness, [503, 200, 503]);
+        assert.equal(probeServer.listening, false);
+    });
+
+    it('probes(): serves service states and health', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test1: () => 'test1',
+        }, 'alpha')
+        .use(probes({ port: 0, host: '127.0.0.1', healthChecks: true, statusPath: '/info' }))
+        .up({
+            test2: () => 'test2',
+        }).health({
+            test1: () => false,
+        });
+
+        await server.start();
+        const probeServer = server.services.probeServer;
+
+        assert.equal((await fetch(probeUrl(probeServer, '/readyz'))).status, 503);
+
+        const status: any = await (await fetch(probeUrl(probeServer, '/info'))).json();
+        assert.equal(status.phase, 'started');
+        const { state, group, level } = status.services.test1;
+        assert.deepEqual({ state, group, level }, { state: 'up', group: 'alpha', level: 0 });
+        assert.equal(typeof status.services.test1.startedAt, 'string');
+        assert.equal(status.services.test2.state, 'up');
+        assert.equal(status.services.probeServer.state, 'up');
+        assert.equal(status.health.status, 'unhealthy');
+
+        assert.equal((await fetch(probeUrl(probeServer, '/unknown'))).status, 404);
+
+        await server.stop();
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+
+describe('Froge (reload)', () => {
+    it('reload(): calls hooks in level order and reports results', async () => {
+        const sequence: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            config: () => ({ limit: 1 }),
+        }).up({
+            http: () => ({ limit: 0 }),
+            worker: () => 'worker',
+        }).reload({
+            http: (http, ctx) => {
+                sequence.push('http');
+                http.limit = ctx.services.config.limit;
+            },
+            config: async config => {
+                sequence.push('config');
+                config.limit = 2;
+            },
+        });
+
+        await server.start();
+        const report = await server.reload();
+
+        assert.deepEqual(sequence, ['config', 'http']);
+        assert.equal(server.services.http.limit, 2);
+        assert.deepEqual(Object.keys(report.services), ['config', 'http']);
+        assert.equal(report.services.config?.status, 'reloaded');
+        assert.equal(typeof report.services.config?.durationMs, 'number');
+    });
+
+    it('reload(): failed hook is reported, others still run', async () => {
+        const server = froge().configure({
+            verbose: false,
+            logLevel: 'error',
+            logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+        }).up({
+            a: () => 'a',
+            b: () => 'b',
+        }).reload({
+            a: () => { throw new Error('bad config'); },
+            b: () => {},
+        });
+
+        await server.start();
+        const report = await server.reload();
+
+        assert.equal(report.services.a?.status, 'failed');
+        assert.equal((report.services.a?.error as Error).message, 'bad config');
+        assert.equal(report.services.b?.status, 'reloaded');
+    });
+
+    it('reload(): restarts services without hook if restartOnReload is enabled', async () => {
+        let connection = 0;
+
+        const server = froge().configure({
+            verbose: false,
+            restartOnReload: true,
+        }).up({
+            db: () => `db#${++connection}`,
+            config: () => 'config',
+        }).up({
+            users: {
+                dependsOn: ['db'],
+                init: ctx => `users(${ctx.services.db})`,
+            },
+        }).reload({
+            config: () => {},
+        }).down({
+            db: () => {},
+        });
+
+        await server.start();
+        const report = await server.reload();
+
+        assert.deepEqual(
+            Object.fromEntries(Object.entries(report.services).map(([key, result]) => [key, result?.status])),
+            { db: 'restarted', users: 'restarted', config: 'reloaded' },
+        );
+        assert.equal(server.services.users, 'users(db#2)');
+    });
+
+    it('reload(): reloads plugin services', async () => {
+        let reloaded = false;
+        const plugin = froge().up({
+            pluginService: () => 'pluginService',
+        }).reload({
+            pluginService: () => { reloaded = true; },
+        });
+        const server = froge().configure({
+            verbose: false,
+        }).use(plugin);
+
+        await server.start();
+        const report = await server.reload();
+
+        assert.equal(reloaded, true);
+        assert.equal(report.services.pluginService?.status, 'reloaded');
+    });
+
+    it('reload(): adding hook to unknown service', () => {
+        assert.throws(() => froge().reload({ unknown: () => {} } as any), {
+            message: 'Trying to add reload hook to unknown service unknown',
+        });
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge, { definePlugin, type PluginContext } from '../src';
+
+interface Db {
+    query: (sql: string) => string,
+}
+
+const repoPlugin = definePlugin({
+    name: 'repo plugin',
+    requires: { services: ['db'], envs: ['FROGE_TEST_TABLE'] },
+    create: (ctx: PluginContext<{ db: Db }>) => froge().up({
+        repo: () => ({ all: () => ctx.services.db.query(`SELECT * FROM ${ctx.envs.FROGE_TEST_TABLE.s()}`) }),
+    }),
+});
+
+describe('Froge (plugin requirements)', () => {
+    it('definePlugin(): plugin gets required services', async () => {
+        process.env.FROGE_TEST_TABLE = 'users';
+        try {
+            const server = froge().configure({
+                verbose: false,
+            }).up({
+                db: () => ({ query: (sql: string) => `db: ${sql}` }),
+            }).use(repoPlugin);
+
+            await server.start();
+            assert.equal(server.services.repo.all(), 'db: SELECT * FROM users');
+            await server.stop();
+        } finally {
+            delete process.env.FROGE_TEST_TABLE;
+        }
+    });
+
+    it('start(): all requirements are checked before anything is started', async () => {
+        let started = false;
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            cache: () => { started = true; },
+        }).use(repoPlugin as any);
+
+        await assert.rejects(server.start(), {
+            message: 'Plugin requirements are not met: repo plugin requires service db, repo plugin requires env var FROGE_TEST_TABLE',
+        });
+        assert.equal(started, false);
+        assert.equal(server.status().phase, 'stopped');
+    });
+
+    it('start(): requirements can be provided by previous plugins', async () => {
+        process.env.FROGE_TEST_TABLE = 'orders';
+        try {
+            const server = froge().configure({
+                verbose: false,
+            })
+                .use(froge().up({ db: () => ({ query: (sql: string) => `plugin db: ${sql}` }) }))
+                .use(repoPlugin);
+
+            await server.start();
+            assert.equal(server.services.repo.all(), 'plugin db: SELECT * FROM orders');
+            await server.stop();
+        } finally {
+            delete process.env.FROGE_TEST_TABLE;
+        }
+    });
+});
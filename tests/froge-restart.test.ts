@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+
+describe('Froge (restart)', () => {
+    it('restart(): restarts service and its dependents only', async () => {
+        const sequence: string[] = [];
+        let connection = 0;
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => { sequence.push('start db'); return `db#${++connection}`; },
+            cache: () => { sequence.push('start cache'); return 'cache'; },
+        }).up({
+            users: {
+                dependsOn: ['db'],
+                init: ctx => { sequence.push('start users'); return `users(${ctx.services.db})`; },
+            },
+            catalog: {
+                dependsOn: ['cache'],
+                init: () => { sequence.push('start catalog'); return 'catalog'; },
+            },
+        }).up({
+            // Depends on everything from previous groups
+            http: ctx => { sequence.push('start http'); return `http(${ctx.services.users})`; },
+        }).down({
+            db: () => { sequence.push('stop db'); },
+            cache: () => { sequence.push('stop cache'); },
+            users: () => { sequence.push('stop users'); },
+            catalog: () => { sequence.push('stop catalog'); },
+        });
+
+        await server.start();
+        sequence.length = 0;
+
+        assert.equal(await server.restart('db'), 'db#2');
+        assert.deepEqual(sequence, [
+            // http has no destroyer, but is initialized again
+            'stop users', 'stop db',
+            'start db', 'start users', 'start http',
+        ]);
+        assert.equal(server.services.http, 'http(users(db#2))');
+        assert.equal(server.services.catalog, 'catalog');
+    });
+
+    it('restart(): plug is swapped without uninitialized gap', async () => {
+        let version = 0;
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            client: ctx => ctx.plug<string>(),
+        }).up({
+            client: () => {
+                const current = ++version;
+                return () => `client v${current}`;
+            },
+        }).down({
+            client: () => {},
+        });
+
+        await server.start();
+        assert.equal(server.services.client(), 'client v1');
+
+        const seen: string[] = [];
+        const check = () => seen.push(server.services.client());
+        server.on('serviceStopped', check).on('serviceStarting', check);
+        await server.restart('client');
+
+        assert.deepEqual(seen, ['client v1', 'client v1']);
+        assert.equal(server.services.client(), 'client v2');
+    });
+
+    it('restart(): failed start rolls back restarted services', async () => {
+        let fail = false;
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => 'db',
+        }).up({
+            api: () => {
+                if (fail) {
+                    throw new Error('api failed');
+                }
+                return 'api';
+            },
+        }).down({
+            db: () => {},
+        });
+
+        await server.start();
+        fail = true;
+        await assert.rejects(server.restart('db'), { message: 'api failed' });
+        assert.equal(server.status().services.db.state, 'down');
+        assert.equal(server.status().services.api.state, 'failed');
+    });
+
+    it('restart(): only own services can be restarted', async () => {
+        const plugin = froge().up({
+            pluginService: () => 'pluginService',
+        });
+        const server = froge().configure({
+            verbose: false,
+        }).use(plugin);
+
+        await server.start();
+        await assert.rejects(server.restart('pluginService'), { message: 'Service pluginService doesn\'t exist or is from a plugin' });
+    });
+
+    it('restart(): server must be started', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => 'db',
+        });
+
+        await assert.rejects(server.restart('db'), { message: 'Trying to restart service db while server is stopped' });
+        assert.equal(server.status().services.db.state, 'registered');
+    });
+});
@@ -0,0 +1,172 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+
+describe('Froge (scopes)', () => {
+    it('createScope(): scoped services are created once per scope', async () => {
+        let created = 0;
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => ({ name: 'db' }),
+        }).up({
+            tx: {
+                lifetime: 'scoped',
+                init: ctx => ({ id: ++created, db: ctx.services.db }),
+            },
+        }).up({
+            repo: {
+                lifetime: 'scoped',
+                init: ctx => ({ tx: ctx.services.tx }),
+            },
+        });
+
+        await server.start();
+        const scope1 = server.createScope();
+        const scope2 = server.createScope();
+
+        assert.equal(scope1.services.repo.tx, scope1.services.tx);
+        assert.equal(scope1.services.tx.id, 1);
+        assert.equal(scope2.services.tx.id, 2);
+        assert.equal(scope1.services.tx.db, server.services.db);
+        assert.equal(scope1.services.db, server.services.db);
+    });
+
+    it('createScope(): transient services are created on every access', async () => {
+        let created = 0;
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            requestId: {
+                lifetime: 'transient',
+                init: () => ++created,
+            },
+        });
+
+        await server.start();
+        const scope = server.createScope();
+        assert.equal(scope.services.requestId, 1);
+        assert.equal(scope.services.requestId, 2);
+    });
+
+    it('dispose(): destroys created services in reverse order', async () => {
+        const sequence: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => 'db',
+        }).up({
+            tx: {
+                lifetime: 'scoped',
+                init: async () => { sequence.push('begin'); return 'tx'; },
+            },
+            logger: {
+                lifetime: 'transient',
+                init: () => 'logger',
+            },
+        }).up({
+            repo: {
+                lifetime: 'scoped',
+                dependsOn: ['tx'],
+                init: ctx => `repo(${ctx.services.tx})`,
+            },
+        }).down({
+            db: () => { sequence.push('stop db'); },
+            tx: tx => { sequence.push(`commit ${tx}`); },
+            logger: () => { sequence.push('close logger'); },
+            repo: () => { sequence.push('close repo'); },
+        });
+
+        await server.start();
+        {
+            await using scope = server.createScope();
+            assert.equal(await scope.get('repo'), 'repo(tx)');
+            assert.equal(scope.services.logger, 'logger');
+        }
+        assert.deepEqual(sequence, ['begin', 'close logger', 'close repo', 'commit tx']);
+    });
+
+    it('dispose(): all destroyers are called even if some fail', async () => {
+        let closed = false;
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            a: {
+                lifetime: 'scoped',
+                init: () => 'a',
+            },
+            b: {
+                lifetime: 'scoped',
+                init: () => 'b',
+            },
+        }).down({
+            a: () => { closed = true; },
+            b: () => { throw new Error('b failed'); },
+        });
+
+        await server.start();
+        const scope = server.createScope();
+        scope.services.a;
+        scope.services.b;
+        await assert.rejects(scope.dispose(), { message: 'Failed to dispose scoped services: b (b failed)' });
+        assert.equal(closed, true);
+        assert.throws(() => scope.services.a, { message: 'Can\'t create service "a", scope is already disposed' });
+    });
+
+    it('createScope(): async service access requires get()', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            tx: {
+                lifetime: 'scoped',
+                init: async () => 'tx',
+            },
+        });
+
+        await server.start();
+        const scope = server.createScope();
+        assert.throws(() => scope.services.tx, {
+            message: 'Service "tx" is initialized asynchronously, use "await scope.get(\'tx\')" to access it',
+        });
+        assert.equal(await scope.get('tx'), 'tx');
+        assert.equal(scope.services.tx, 'tx');
+    });
+
+    it('scoped services are not started with the server', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            tx: {
+                lifetime: 'scoped',
+                init: () => { throw new Error('must not be called'); },
+            },
+        });
+
+        await server.start();
+        assert.throws(() => server.services.tx, {
+            message: 'Can\'t access scoped service "tx" outside of a scope, use server.createScope()',
+        });
+    });
+
+    it('singleton can not depend on scoped service', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            tx: {
+                lifetime: 'scoped',
+                init: () => 'tx',
+            },
+        }).up({
+            repo: {
+                dependsOn: ['tx'],
+                init: () => 'repo',
+            },
+        });
+
+        await assert.rejects(server.start(), { message: 'Service repo can\'t depend on scoped service tx' });
+    });
+});
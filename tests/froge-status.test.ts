@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+import { quietLogger } from './samples/quiet-logger';
+
+describe('Froge (status)', () => {
+    it('status(): services go through registered, starting, up, stopping and down', async () => {
+        const states: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => 'db',
+        }).up({
+            api: ctx => {
+                states.push(ctx.services.db, server.status().services.api.state);
+                return 'api';
+            },
+        }).down({
+            api: () => { states.push(server.status().services.api.state); },
+        });
+
+        assert.equal(server.status().services.db.state, 'registered');
+        assert.equal(server.isRunning, false);
+        await server.start();
+        assert.equal(server.isRunning, true);
+
+        const up = server.status().services.db;
+        assert.equal(up.state, 'up');
+        assert.ok(up.startedAt instanceof Date);
+        assert.equal(up.since, up.startedAt);
+        assert.equal(up.stoppedAt, undefined);
+
+        await server.stop();
+        assert.equal(server.isRunning, false);
+        assert.deepEqual(states, ['db', 'starting', 'stopping']);
+        assert.equal(server.status().services.api.state, 'down');
+        const { startedAt, stoppedAt } = server.status().services.api;
+        assert.ok(stoppedAt instanceof Date);
+        assert.ok(startedAt! <= stoppedAt);
+    });
+
+    it('status(): services without destroyer are down after stop', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => 'db',
+            cache: () => {},
+        });
+
+        await server.start();
+        await server.stop();
+        assert.equal(server.status().services.db.state, 'down');
+        assert.equal(server.status().services.cache.state, 'down');
+        assert.ok(server.status().services.db.stoppedAt instanceof Date);
+        assert.throws(() => server.services.db, { message: 'Can\'t access service "db" after it was stopped' });
+    });
+
+    it('status(): failed service keeps the error', async () => {
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            db: () => { throw new Error('connection refused'); },
+        });
+
+        await assert.rejects(server.start(), { message: 'connection refused' });
+        assert.equal(server.status().services.db.state, 'failed');
+        assert.equal(server.status().services.db.error, 'connection refused');
+        assert.equal(server.isRunning, false);
+        assert.throws(() => server.services.db, { message: 'Service "db" failed to start: connection refused' });
+    });
+
+    it('status(): plugin services report the plugin', async () => {
+        const plugin = froge().up({
+            pluginService: () => 'pluginService',
+        });
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            db: () => 'db',
+        }).use(plugin);
+
+        await server.start();
+        assert.equal(server.status().services.db.plugin, undefined);
+        assert.equal(server.status().services.pluginService.plugin, 'plugin (pluginService)');
+        await server.stop();
+    });
+
+    it('services: access error depends on service state', async () => {
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            db: () => 'db',
+            cache: {
+                optional: true,
+                init: () => { throw new Error('cache is down'); },
+            },
+        }).up({
+            api: {
+                lazy: true,
+                init: () => { throw new Error('no routes'); },
+            },
+        }).down({
+            db: () => {},
+        });
+
+        assert.throws(() => server.services.db, { message: 'Can\'t access service "db" before it was started' });
+        await server.start();
+        assert.equal(server.services.cache, undefined);
+        await assert.rejects(server.get('api'), { message: 'no routes' });
+        await server.stop();
+        assert.throws(() => server.services.db, { message: 'Can\'t access service "db" after it was stopped' });
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+import { quietLogger } from './samples/quiet-logger';
+
+describe('Froge (stop)', () => {
+    for (const parallelStopGroups of [true, false]) {
+        it(`stop(): attempts every destroyer and reports all failures (parallel: ${parallelStopGroups})`, async () => {
+            const stopped: string[] = [];
+
+            const server = froge().configure({
+                verbose: false,
+                logger: quietLogger,
+                parallelStopGroups,
+            }).up({
+                db: () => 'db',
+            }).up({
+                cache: () => 'cache',
+                queue: () => 'queue',
+            }).up({
+                api: () => 'api',
+            }).down({
+                db: () => { stopped.push('db'); },
+                cache: () => { throw new Error('cache is stuck'); },
+                queue: async () => { stopped.push('queue'); },
+                api: async () => { throw new Error('api is stuck'); },
+            });
+
+            await server.start();
+            const error = await server.stop().then(() => undefined, error => error);
+
+            assert.ok(error instanceof AggregateError);
+            assert.equal(error.message, 'Failed to stop: api (api is stuck), cache (cache is stuck)');
+            assert.deepEqual(error.errors.map(e => e.message), ['api is stuck', 'cache is stuck']);
+            assert.deepEqual(stopped.toSorted(), ['db', 'queue']);
+            assert.equal(server.status().phase, 'stopped');
+        });
+    }
+
+    it('stop(): plugin failure does not prevent stopping other services', async () => {
+        let dbStopped = false;
+        const plugin = froge().up({
+            pluginService: () => 'pluginService',
+        }).down({
+            pluginService: () => { throw new Error('plugin is stuck'); },
+        });
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            db: () => 'db',
+        }).use(plugin).down({
+            db: () => { dbStopped = true; },
+        });
+
+        await server.start();
+        await assert.rejects(server.stop(), { message: 'Failed to stop: plugin (pluginService) (Failed to stop: pluginService (plugin is stuck))' });
+        assert.equal(dbStopped, true);
+    });
+
+    it('policy(): stopTimeoutMs fails slow destroyer', async () => {
+        let dbStopped = false;
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            db: () => 'db',
+        }).up({
+            consumer: () => 'consumer',
+        }).down({
+            db: () => { dbStopped = true; },
+            consumer: () => new Promise<void>(resolve => setTimeout(resolve, 1000).unref()),
+        }).policy({
+            consumer: { stopTimeoutMs: 10 },
+        });
+
+        await server.start();
+        await assert.rejects(server.stop(), { message: 'Failed to stop: consumer (Destroy timed out after 10ms)' });
+        assert.equal(dbStopped, true);
+    });
+});
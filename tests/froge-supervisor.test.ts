@@ -0,0 +1,237 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge, { type FrogeContext, type FrogeEvents, type FrogeServer } from '../src';
+import { quietLogger } from './samples/quiet-logger';
+
+function ready(server: FrogeServer<any, any>, key: string) {
+    return new Promise<void>(resolve => {
+        const listener = (info: FrogeEvents['serviceReady'][0]) => {
+            if (info.key === key) {
+                server.off('serviceReady', listener);
+                resolve();
+            }
+        };
+        server.on('serviceReady', listener);
+    });
+}
+
+describe('Froge (supervisor)', () => {
+    it('ctx.fail(): crashed service is restarted with dependents', async () => {
+        let fail: FrogeContext<{}>['fail'] = () => {};
+        let version = 0;
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            consumer: ctx => {
+                fail = ctx.fail;
+                return `consumer v${++version}`;
+            },
+            other: () => 'other',
+        }).up({
+            api: {
+                dependsOn: ['consumer'],
+                init: ctx => `api(${ctx.services.consumer})`,
+            },
+        }).policy({
+            consumer: { restart: 'on-failure', backoffMs: 1, jitter: 0 },
+        });
+
+        const crashes: unknown[] = [];
+        server.on('serviceCrashed', info => crashes.push([info.key, (info.error as Error).message, info.action]));
+
+        await server.start();
+        const restarted = ready(server, 'api');
+        fail(new Error('connection lost'));
+        await restarted;
+
+        assert.deepEqual(crashes, [['consumer', 'connection lost', 'restart']]);
+        assert.equal(server.services.consumer, 'consumer v2');
+        assert.equal(server.services.api, 'api(consumer v2)');
+        assert.equal(server.services.other, 'other');
+    });
+
+    it('exited: clean exit is restarted only with always policy', async () => {
+        const exits: (() => void)[] = [];
+        const actions: string[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            always: {
+                init: () => 'always',
+                exited: () => new Promise<void>(resolve => exits.push(resolve)),
+            },
+            optional: {
+                optional: true,
+                init: () => 'optional',
+                exited: () => new Promise<void>(resolve => exits.push(resolve)),
+            },
+        }).policy({
+            always: { restart: 'always', backoffMs: 1, jitter: 0 },
+            optional: { restart: 'on-failure' },
+        });
+        server.on('serviceCrashed', info => actions.push(`${info.key}: ${info.action}`));
+
+        await server.start();
+        const restarted = ready(server, 'always');
+        exits.forEach(exit => exit());
+        await restarted;
+
+        assert.deepEqual(actions, ['always: restart', 'optional: disable']);
+        assert.equal(server.status().services.always.state, 'up');
+        assert.equal(server.status().services.optional.state, 'failed');
+        assert.equal(server.services.optional, undefined);
+    });
+
+    it('ctx.fail(): dependents of disabled optional service are restarted without it', async () => {
+        let fail: FrogeContext<{}>['fail'] = () => {};
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            cache: {
+                optional: true,
+                init: ctx => {
+                    fail = ctx.fail;
+                    return { closed: false };
+                },
+                destroy: (cache: { closed: boolean }) => { cache.closed = true; },
+            },
+        }).up({
+            api: ctx => ({ cache: ctx.services.cache }),
+        });
+
+        await server.start();
+        const restarted = ready(server, 'api');
+        fail(new Error('evicted'));
+        await restarted;
+
+        assert.equal(server.status().services.cache.state, 'failed');
+        assert.equal(server.status().services.cache.error, 'evicted');
+        assert.equal(server.services.cache, undefined);
+        assert.equal(server.services.api.cache, undefined);
+        await server.stop();
+    });
+
+    it('ctx.fail(): stop() cancels restart waiting for backoff', async () => {
+        let fail: FrogeContext<{}>['fail'] = () => {};
+        let inits = 0;
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            consumer: ctx => {
+                fail = ctx.fail;
+                return `consumer v${++inits}`;
+            },
+        }).policy({
+            consumer: { restart: 'always', backoffMs: 50, jitter: 0 },
+        });
+
+        const events: string[] = [];
+        server.on('stopping', () => events.push('stopping'));
+        server.on('stopped', () => events.push('stopped'));
+
+        await server.start();
+        fail(new Error('boom'));
+        await server.stop();
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        assert.deepEqual(events, ['stopping', 'stopped']);
+        assert.equal(inits, 1);
+        assert.equal(server.status().phase, 'stopped');
+    });
+
+    it('ctx.fail(): shuts down when restarts are exhausted', async () => {
+        let fail: FrogeContext<{}>['fail'] = () => {};
+        let stopped = false;
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            consumer: ctx => {
+                fail = ctx.fail;
+                return 'consumer';
+            },
+        }).down({
+            consumer: () => { stopped = true; },
+        }).policy({
+            consumer: { restart: 'always', maxRestarts: 1, backoffMs: 1, jitter: 0 },
+        });
+
+        const actions: string[] = [];
+        server.on('serviceCrashed', info => actions.push(info.action));
+
+        await server.start();
+        const restarted = ready(server, 'consumer');
+        fail();
+        await restarted;
+        stopped = false;
+        const shutdown = new Promise(resolve => server.once('stopped', resolve));
+        fail();
+        await shutdown;
+
+        assert.deepEqual(actions, ['restart', 'shutdown']);
+        assert.equal(stopped, true);
+        assert.equal(server.status().phase, 'stopped');
+    });
+
+    it('ctx.fail(): plugin service crash shuts down the parent server', async () => {
+        let fail: FrogeContext<{}>['fail'] = () => {};
+        let stopped = false;
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            db: () => 'db',
+        }).down({
+            db: () => { stopped = true; },
+        }).use(froge().configure({
+            logger: quietLogger,
+        }).up({
+            consumer: (ctx: FrogeContext<{}>) => {
+                fail = ctx.fail;
+                return 'consumer';
+            },
+        }), { prefix: 'queue' });
+
+        await server.start();
+        const shutdown = new Promise(resolve => server.once('stopped', resolve));
+        fail(new Error('boom'));
+        await shutdown;
+
+        assert.equal(stopped, true);
+        assert.equal(server.status().phase, 'stopped');
+    });
+
+    it('ctx.fail(): ignored for destroyed instances', async () => {
+        let fail: FrogeContext<{}>['fail'] = () => {};
+
+        const server = froge().configure({
+            verbose: false,
+            logger: quietLogger,
+        }).up({
+            consumer: ctx => {
+                fail = ctx.fail;
+                return 'consumer';
+            },
+        }).down({
+            consumer: () => fail(new Error('closed')),
+        });
+
+        const crashes: unknown[] = [];
+        server.on('serviceCrashed', info => crashes.push(info));
+
+        await server.start();
+        await server.stop();
+        fail(new Error('late'));
+        assert.deepEqual(crashes, []);
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+import { startTestServer, useTestServer } from '../src/testing';
+
+function createServer(sequence: string[]) {
+    return froge().configure({
+        verbose: false,
+    }).up({
+        db: () => {
+            sequence.push('db');
+            return { query: (sql: string) => `db: ${sql}` };
+        },
+        mailer: () => {
+            sequence.push('mailer');
+            return { send: (to: string) => `sent to ${to}` };
+        },
+    }).up({
+        api: {
+            dependsOn: ['db'],
+            init: ctx => ({ users: () => ctx.services.db.query('SELECT * FROM users') }),
+        },
+    }).down({
+        db: () => { sequence.push('stop db'); },
+        mailer: () => { sequence.push('stop mailer'); },
+    });
+}
+
+describe('Froge (testing)', () => {
+    it('startTestServer(): mocks replace services and are not destroyed', async () => {
+        const sequence: string[] = [];
+        const server = await startTestServer(createServer(sequence), {
+            mocks: { db: { query: sql => `fake: ${sql}` } },
+        });
+
+        assert.equal(server.services.api.users(), 'fake: SELECT * FROM users');
+        await server.stop();
+        assert.deepEqual(sequence, ['mailer', 'stop mailer']);
+    });
+
+    it('startTestServer(): only starts required services', async () => {
+        const sequence: string[] = [];
+        const server = await startTestServer(createServer(sequence), { only: ['api'] });
+
+        assert.equal(server.services.api.users(), 'db: SELECT * FROM users');
+        assert.equal(server.status().services.mailer.state, 'registered');
+        await server.stop();
+        assert.deepEqual(sequence, ['db', 'stop db']);
+    });
+
+    it('mock(): unknown services and running server are rejected', async () => {
+        const server = createServer([]);
+        assert.throws(() => server.mock({ unknown: 1 } as any), { message: 'Trying to mock unknown service unknown' });
+
+        await server.start();
+        assert.throws(() => server.mock({ db: { query: () => '' } }), { message: 'Trying to mock services while server is started (db)' });
+        assert.throws(() => server.unmock(), { message: 'Trying to unmock services while server is started' });
+        await server.stop();
+    });
+
+    const sequence: string[] = [];
+    describe('useTestServer()', () => {
+        const server = useTestServer(createServer(sequence), {
+            mocks: { mailer: { send: () => 'fake' } },
+        });
+
+        it('starts the server before tests', () => {
+            assert.equal(server.services.mailer.send('user'), 'fake');
+            assert.equal(server.isRunning, true);
+        });
+    });
+
+    it('useTestServer(): stops the server after tests', () => {
+        assert.deepEqual(sequence, ['db', 'stop db']);
+    });
+
+    describe('useTestServer(): mocks are removed after tests', () => {
+        const shared = createServer([]);
+
+        describe('with mocks', () => {
+            const server = useTestServer(shared, {
+                mocks: { db: { query: () => 'fake' } },
+            });
+
+            it('uses mocks', () => {
+                assert.equal(server.services.api.users(), 'fake');
+            });
+        });
+
+        describe('without mocks', () => {
+            const server = useTestServer(shared);
+
+            it('uses real services', () => {
+                assert.equal(server.services.api.users(), 'db: SELECT * FROM users');
+            });
+        });
+    });
+});
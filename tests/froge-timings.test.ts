@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import froge from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// timers may fire slightly earlier than measured with performance.now()
+const atLeast = (value: number | undefined, ms: number) => assert.ok(value! >= ms - 1, `${value} < ${ms}`);
+
+describe('Froge (timings)', () => {
+    it('timings(): records durations of services, plugins and levels', async () => {
+        const plugin = froge().up({
+            pluginService: async () => { await delay(10); return 'pluginService'; },
+        });
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            fast: () => 'fast',
+            slow: async () => { await delay(30); return 'slow'; },
+        })
+        .use(plugin)
+        .up({
+            last: () => 'last',
+        }).down({
+            slow: async () => { await delay(10); },
+        });
+
+        await server.start();
+        let report = server.timings();
+        atLeast(report.startMs, 40);
+        assert.deepEqual(report.items.map(item => [item.name, item.kind, item.level]), [
+            ['fast', 'service', 0],
+            ['slow', 'service', 0],
+            ['plugin (pluginService)', 'plugin', 0],
+            ['last', 'service', 1],
+        ]);
+        atLeast(report.items[1].startMs, 30);
+        assert.deepEqual(report.levels.map(level => level.level), [0, 1]);
+        atLeast(report.levels[0].startMs, 40);
+
+        assert.deepEqual(report.criticalPath.items.map(item => item.name), ['slow', 'plugin (pluginService)', 'last']);
+        atLeast(report.criticalPath.durationMs, 40);
+
+        await server.stop();
+        report = server.timings();
+        atLeast(report.stopMs, 10);
+        atLeast(report.items[1].stopMs, 10);
+        assert.equal(typeof report.items[2].stopMs, 'number');
+    });
+
+    it('timings(): all services are on critical path when started sequentially', async () => {
+        const server = froge().configure({
+            verbose: false,
+            parallelStartGroups: false,
+        }).up({
+            test1: () => 'test1',
+            test2: () => 'test2',
+        });
+
+        await server.start();
+        assert.deepEqual(server.timings().criticalPath.items.map(item => item.name), ['test1', 'test2']);
+    });
+});
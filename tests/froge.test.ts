@@ -187,6 +187,90 @@ describe('Froge', () => {
         assert.equal(lastErrorLog, undefined);
     });
 
+    it('start(): rolls back started services on failure', async () => {
+        const stopSequence: number[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test1: () => 'test1',
+            test2: () => new Promise<string>(resolve => setTimeout(() => resolve('test2'), 20)),
+        }).up({
+            test3: () => 'test3',
+            test4: () => { throw new Error('test4 failed'); },
+        }).up({
+            test5: () => 'test5',
+        }).down({
+            test1: () => { stopSequence.push(1); },
+            test2: () => { stopSequence.push(2); },
+            test3: () => { stopSequence.push(3); },
+            test5: () => { stopSequence.push(5); },
+        });
+
+        await assert.rejects(server.start(), { message: 'test4 failed' });
+        assert.deepEqual(stopSequence, [3, 2, 1]);
+        assert.throws(() => { console.log(server.services.test1); });
+        assert.throws(() => { console.log(server.services.test3); });
+
+        // Nothing left to stop
+        await server.stop();
+        assert.deepEqual(stopSequence, [3, 2, 1]);
+    });
+
+    it('start(): waits for parallel services before rolling back', async () => {
+        const stopSequence: number[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test1: () => new Promise<string>(resolve => setTimeout(() => resolve('test1'), 20)),
+            test2: () => { throw new Error('test2 failed'); },
+        }).down({
+            test1: () => { stopSequence.push(1); },
+        });
+
+        await assert.rejects(server.start(), { message: 'test2 failed' });
+        assert.deepEqual(stopSequence, [1]);
+    });
+
+    it('only(): rolls back started services on failure', async () => {
+        const stopSequence: number[] = [];
+
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test1: () => 'test1',
+        }).up({
+            test2: () => { throw new Error('test2 failed'); },
+        }).down({
+            test1: () => { stopSequence.push(1); },
+        });
+
+        await assert.rejects(server.only('test2'), { message: 'test2 failed' });
+        assert.deepEqual(stopSequence, [1]);
+    });
+
+    it('start(): reports failed rollback', async () => {
+        const server = froge().configure({
+            verbose: false,
+        }).up({
+            test1: () => 'test1',
+            test2: () => 'test2',
+        }).up({
+            test3: () => { throw new Error('test3 failed'); },
+        }).down({
+            test1: () => { throw new Error('test1 stop failed'); },
+        });
+
+        await assert.rejects(server.start(), (e: any) => {
+            assert.ok(e instanceof AggregateError);
+            assert.equal(e.message, 'test3 failed; rollback also failed for: test1 (test1 stop failed)');
+            assert.equal((e.cause as Error).message, 'test3 failed');
+            assert.equal(e.errors.length, 2);
+            return true;
+        });
+    });
+
     it('ctx.plug(): overrides plug with service', async () => {
         const startSequence: number[] = [];
         const stopSequence: number[] = [];
@@ -421,7 +505,7 @@ describe('Froge', () => {
         assert.deepEqual(stopSequence, [2, 1]);
         assert.equal(exitCalled, true);
 
-        assert.match(lastErrorLog ?? '', /Shutdown incomplete, killing... Reason: Error: test2 stop failed/);
+        assert.match(lastErrorLog ?? '', /Shutdown incomplete, killing... Reason: AggregateError: Failed to stop: test2 \(test2 stop failed\)/);
     });
 
     it('shutdown(): handles timeout', async () => {
@@ -0,0 +1,4 @@
+import type { FrogeLogger } from '../../src';
+
+/** Logger for tests of failures, which are logged as errors */
+export const quietLogger: FrogeLogger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };